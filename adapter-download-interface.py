@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\adapter-download-interface.py
-// Generated at: 2025-10-14T16:36:29.512Z
\ No newline at end of file
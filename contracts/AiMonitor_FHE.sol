@@ -1,8 +1,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, euint64, euint128, externalEuint8, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { AlertEvaluation } from "./AlertEvaluation.sol";
+import { ClassificationMetrics } from "./ClassificationMetrics.sol";
+import { DriftDetection } from "./DriftDetection.sol";
+import { FairnessMetrics } from "./FairnessMetrics.sol";
+import { MetricRegistry } from "./MetricRegistry.sol";
+import { ModelMetrics } from "./ModelMetrics.sol";
+import { PredictionSchema } from "./PredictionSchema.sol";
 
 contract AiMonitor_FHE is SepoliaConfig {
     struct EncryptedPrediction {
@@ -12,79 +19,400 @@ contract AiMonitor_FHE is SepoliaConfig {
         euint32 encryptedGroundTruth; // Encrypted ground truth (if available)
         uint256 timestamp;
         string modelId;
+        bool labelPending;            // Ground truth not attached yet
+        euint8 encryptedSegment;      // Encrypted fairness segment (if assigned)
     }
 
-    struct PerformanceMetrics {
-        euint32 encryptedAccuracy;
-        euint32 encryptedDriftScore;
-        euint32 encryptedErrorRate;
+    // Means of all samples submitted up to the reveal
+    struct RevealedMetrics {
+        uint32 accuracy;
+        uint32 driftScore;
+        uint32 errorRate;
+        uint32 sampleCount;
+        uint256 timestamp;
+    }
+
+    struct DriftReveal {
+        bool drifted;
+        uint256 evaluation;
+        uint256 timestamp;
+        bool isRevealed;
+    }
+
+    // Score cut-offs are 0-100; loss cut-offs use the model's loss scale
+    struct AlertThresholds {
+        uint32 criticalScore;
+        uint32 warningScore;
+        uint32 noticeScore;
+        uint32 retrainingScore;
+        uint32 lossWarning;
+        uint32 lossCritical;
+    }
+
+    struct RevealedConfusionMatrix {
+        uint32 truePositives;
+        uint32 falsePositives;
+        uint32 trueNegatives;
+        uint32 falseNegatives;
+        uint256 timestamp;
+        bool isRevealed;
+    }
+
+    struct FairnessReveal {
+        bool parityGapExceeded;
+        bool opportunityGapExceeded;
+        bool accuracyGapExceeded;
+        uint256 timestamp;
+        bool isRevealed;
+    }
+
+    struct ModelAccess {
+        address owner;
+        mapping(address => bool) writers;
+        mapping(address => bool) viewers;
     }
 
+    // Level is 0 Normal, 1 Notice, 2 Warning, 3 Critical
+    struct EncryptedAlert {
+        euint8 level;
+        ebool needsRetraining;
+    }
+
+    // Alert-only analyses reveal the level and retraining flag but never the score
     struct DecryptedAlert {
         uint32 performanceScore;
         string alertLevel;
         bool needsRetraining;
         bool isRevealed;
+        bool alertOnly;
     }
 
     uint256 public predictionCount;
     mapping(uint256 => EncryptedPrediction) public predictions;
-    mapping(string => PerformanceMetrics) public modelPerformance;
-    mapping(uint256 => DecryptedAlert) public performanceAlerts;
+    mapping(string => ModelMetrics.PerformanceMetrics) public modelPerformance;
+    mapping(string => ModelMetrics.MetricScales) private metricScales;
+    mapping(uint256 => DecryptedAlert) private performanceAlerts;
+    mapping(uint256 => EncryptedAlert) private encryptedAlerts;
+    mapping(string => RevealedMetrics[]) private revealedMetrics;
+    mapping(string => DriftDetection.DriftConfig) private driftConfigs;
+    mapping(string => AlertThresholds) private alertThresholds;
+    mapping(string => DriftDetection.DriftState) private driftStates;
+    mapping(string => DriftReveal) private driftReveals;
     
     mapping(uint256 => uint256) private requestToPredictionId;
+    mapping(uint256 => uint256) private requestToAlertPredictionId;
+    mapping(uint256 => bool) private analysisPending;
     mapping(uint256 => string) private requestToModelId;
+    mapping(uint256 => string) private requestToDriftModelId;
+    mapping(string => bool) public classificationModels;
+    mapping(string => ClassificationMetrics.ConfusionMatrix) private confusionMatrices;
+    mapping(string => RevealedConfusionMatrix) private revealedConfusionMatrices;
+    mapping(uint256 => string) private requestToClassificationModelId;
+    mapping(string => FairnessMetrics.State) private fairnessStates;
+    mapping(string => mapping(uint8 => FairnessReveal)) private fairnessReveals;
+    mapping(uint256 => string) private requestToFairnessModelId;
+    mapping(uint256 => uint8) private requestToFairnessSegment;
+    mapping(string => PredictionSchema.Schema) private modelSchemas;
+    mapping(uint256 => euint32[]) private predictionFeatures;
+    mapping(uint256 => euint32[]) private predictionOutputs;
+    mapping(string => ModelAccess) private modelAccess;
+    mapping(bytes32 => string) private modelIdsByHash;
     string[] private monitoredModels;
 
-    event PredictionRecorded(uint256 indexed id, string modelId, uint256 timestamp);
+    // labelPending lets indexers list unlabeled predictions without reading every record
+    event PredictionRecorded(
+        uint256 indexed id,
+        bytes32 indexed modelHash,
+        string modelId,
+        uint256 timestamp,
+        bool labelPending
+    );
+    event GroundTruthAttached(uint256 indexed predictionId, bytes32 indexed modelHash, uint256 timestamp);
+    event PredictionBatchRecorded(bytes32 indexed modelHash, string modelId, uint256 firstId, uint256 count);
     event PerformanceAnalysisRequested(uint256 indexed predictionId);
+    event AlertOnlyAnalysisRequested(uint256 indexed predictionId);
     event AlertGenerated(uint256 indexed predictionId);
     event PerformanceAlertDecrypted(uint256 indexed predictionId);
+    event ModelMetricsDecrypted(
+        string modelId,
+        uint256 index,
+        uint32 accuracy,
+        uint32 driftScore,
+        uint32 errorRate,
+        uint32 sampleCount,
+        uint256 timestamp
+    );
+    event DriftConfigured(string modelId, uint32 windowSize, uint64 meanThreshold, uint128 varianceThreshold);
+    event DriftEvaluated(string modelId, uint256 evaluation);
+    event DriftDecrypted(string modelId, uint256 evaluation, bool drifted);
+    event ClassificationEnabled(string modelId);
+    event ConfusionMatrixDecrypted(
+        string modelId,
+        uint32 truePositives,
+        uint32 falsePositives,
+        uint32 trueNegatives,
+        uint32 falseNegatives
+    );
+    event SegmentAssigned(uint256 indexed predictionId);
+    event FairnessConfigured(string modelId, uint8 segmentCount);
+    event FairnessDecrypted(string modelId, uint8 segment, bool parityGapExceeded, bool opportunityGapExceeded, bool accuracyGapExceeded);
+    event ModelSchemaConfigured(string modelId, uint8 featureCount, uint8 outputArity);
+    event ModelRegistered(string modelId, address indexed owner);
+    event AlertThresholdsUpdated(string modelId);
+    event MetricScalesUpdated(string modelId, uint32 accuracyScale, uint32 lossScale);
+    event ModelOwnershipTransferred(string modelId, address indexed previousOwner, address indexed newOwner);
+    event ModelWriterUpdated(string modelId, address indexed account, bool allowed);
+    event ModelViewerUpdated(string modelId, address indexed account, bool allowed);
+
+    // Precision, recall, F1 and accuracy are returned in basis points
+    uint256 private constant RATIO_SCALE = 10000;
+    // Registry collection the dashboard lists metric submissions in
+    string private constant METRIC_COLLECTION = "metrics";
+
+    /// @notice Lists every metric submission; this contract must be one of its writers.
+    MetricRegistry public immutable metricRegistry;
+
+    constructor(MetricRegistry metricRegistry_) {
+        metricRegistry = metricRegistry_;
+    }
 
     modifier onlyModelOwner(string memory modelId) {
+        require(modelAccess[modelId].owner == msg.sender, "Not model owner");
+        _;
+    }
+
+    modifier onlyModelWriter(string memory modelId) {
+        require(isModelWriter(modelId, msg.sender), "Not model writer");
         _;
     }
 
+    modifier onlyModelViewer(string memory modelId) {
+        require(isModelViewer(modelId, msg.sender), "Not model viewer");
+        _;
+    }
+
+    function registerModel(string memory modelId) public {
+        require(bytes(modelId).length > 0, "Empty model id");
+        require(modelAccess[modelId].owner == address(0), "Model already registered");
+
+        modelAccess[modelId].owner = msg.sender;
+        modelIdsByHash[keccak256(bytes(modelId))] = modelId;
+        monitoredModels.push(modelId);
+        ModelMetrics.initialize(modelPerformance[modelId], metricScales[modelId]);
+        alertThresholds[modelId] = AlertThresholds({
+            criticalScore: 50,
+            warningScore: 70,
+            noticeScore: 85,
+            retrainingScore: 60,
+            lossWarning: 5000,
+            lossCritical: 10000
+        });
+
+        emit ModelRegistered(modelId, msg.sender);
+    }
+
+    function setAlertThresholds(
+        string memory modelId,
+        AlertThresholds calldata thresholds
+    ) public onlyModelOwner(modelId) {
+        require(
+            thresholds.criticalScore <= thresholds.warningScore &&
+                thresholds.warningScore <= thresholds.noticeScore &&
+                thresholds.noticeScore <= 100 &&
+                thresholds.retrainingScore <= 100,
+            "Invalid score thresholds"
+        );
+        require(thresholds.lossWarning <= thresholds.lossCritical, "Invalid loss thresholds");
+
+        alertThresholds[modelId] = thresholds;
+        emit AlertThresholdsUpdated(modelId);
+    }
+
+    function getAlertThresholds(string memory modelId) public view returns (AlertThresholds memory) {
+        return alertThresholds[modelId];
+    }
+
+    function transferModelOwnership(string memory modelId, address newOwner) public onlyModelOwner(modelId) {
+        require(newOwner != address(0), "Invalid owner");
+        modelAccess[modelId].owner = newOwner;
+        emit ModelOwnershipTransferred(modelId, msg.sender, newOwner);
+    }
+
+    function setModelWriter(string memory modelId, address account, bool allowed) public onlyModelOwner(modelId) {
+        modelAccess[modelId].writers[account] = allowed;
+        emit ModelWriterUpdated(modelId, account, allowed);
+    }
+
+    function setModelViewer(string memory modelId, address account, bool allowed) public onlyModelOwner(modelId) {
+        modelAccess[modelId].viewers[account] = allowed;
+        emit ModelViewerUpdated(modelId, account, allowed);
+    }
+
+    function getModelOwner(string memory modelId) public view returns (address) {
+        return modelAccess[modelId].owner;
+    }
+
+    /// @dev Owners implicitly hold the writer role.
+    function isModelWriter(string memory modelId, address account) public view returns (bool) {
+        ModelAccess storage access = modelAccess[modelId];
+        return access.owner != address(0) && (access.owner == account || access.writers[account]);
+    }
+
+    /// @dev Writers implicitly hold the viewer role.
+    function isModelViewer(string memory modelId, address account) public view returns (bool) {
+        return isModelWriter(modelId, account) || modelAccess[modelId].viewers[account];
+    }
+
+    function getMonitoredModels() public view returns (string[] memory) {
+        return monitoredModels;
+    }
+
+    /// @notice Resolves the `modelHash` topic of prediction events back to the model id.
+    function getModelIdByHash(bytes32 modelHash) public view returns (string memory) {
+        return modelIdsByHash[modelHash];
+    }
+
     function recordEncryptedPrediction(
         string memory modelId,
-        euint32 input,
-        euint32 prediction,
-        euint32 groundTruth
+        externalEuint32 encryptedInput,
+        externalEuint32 encryptedPrediction,
+        externalEuint32 encryptedGroundTruth,
+        bytes calldata inputProof
+    ) public onlyModelWriter(modelId) {
+        storePrediction(
+            modelId,
+            keccak256(bytes(modelId)),
+            FHE.fromExternal(encryptedInput, inputProof),
+            FHE.fromExternal(encryptedPrediction, inputProof),
+            FHE.fromExternal(encryptedGroundTruth, inputProof)
+        );
+    }
+
+    /// @notice Records a prediction whose label arrives later through attachEncryptedGroundTruth.
+    function recordUnlabeledPrediction(
+        string memory modelId,
+        externalEuint32 encryptedInput,
+        externalEuint32 encryptedPrediction,
+        bytes calldata inputProof
+    ) public onlyModelWriter(modelId) {
+        euint32 noLabel;
+        storePrediction(
+            modelId,
+            keccak256(bytes(modelId)),
+            FHE.fromExternal(encryptedInput, inputProof),
+            FHE.fromExternal(encryptedPrediction, inputProof),
+            noLabel
+        );
+    }
+
+    function attachEncryptedGroundTruth(
+        uint256 predictionId,
+        externalEuint32 encryptedGroundTruth,
+        bytes calldata inputProof
+    ) public onlyModelWriter(predictions[predictionId].modelId) {
+        EncryptedPrediction storage pred = predictions[predictionId];
+        require(pred.labelPending, "Label already attached");
+
+        euint32 groundTruth = FHE.fromExternal(encryptedGroundTruth, inputProof);
+        allowStored(groundTruth);
+        pred.encryptedGroundTruth = groundTruth;
+        pred.labelPending = false;
+        trackClassification(pred.modelId, pred.encryptedPrediction, groundTruth);
+        trackFairness(pred, groundTruth);
+
+        emit GroundTruthAttached(predictionId, keccak256(bytes(pred.modelId)), block.timestamp);
+    }
+
+    /// @notice Tags a prediction with its fairness segment; it is counted once both segment and label are known.
+    function assignEncryptedSegment(
+        uint256 predictionId,
+        externalEuint8 encryptedSegment,
+        bytes calldata inputProof
+    ) public onlyModelWriter(predictions[predictionId].modelId) {
+        require(!FHE.isInitialized(predictions[predictionId].encryptedSegment), "Segment already assigned");
+        storeSegment(predictionId, FHE.fromExternal(encryptedSegment, inputProof));
+    }
+
+    function configureModelSchema(
+        string memory modelId,
+        uint8 featureCount,
+        uint8 outputArity
     ) public onlyModelOwner(modelId) {
-        predictionCount += 1;
-        uint256 newId = predictionCount;
-        
-        predictions[newId] = EncryptedPrediction({
-            id: newId,
-            encryptedInput: input,
-            encryptedPrediction: prediction,
-            encryptedGroundTruth: groundTruth,
-            timestamp: block.timestamp,
-            modelId: modelId
-        });
-        
-        performanceAlerts[newId] = DecryptedAlert({
-            performanceScore: 0,
-            alertLevel: "",
-            needsRetraining: false,
-            isRevealed: false
-        });
+        PredictionSchema.configure(modelSchemas[modelId], featureCount, outputArity);
+        emit ModelSchemaConfigured(modelId, featureCount, outputArity);
+    }
+
+    function getModelSchema(string memory modelId) public view returns (PredictionSchema.Schema memory) {
+        return modelSchemas[modelId];
+    }
+
+    /// @notice Records a prediction matching the model's schema from a single encrypted input.
+    /// The first feature and first output also fill the scalar input and prediction used by drift,
+    /// alert and classification tracking. Pass no ground truth to leave the label pending, and at most
+    /// one fairness segment, which comes from the same input so it cannot fail apart from the prediction.
+    function recordEncryptedPredictionVector(
+        string memory modelId,
+        externalEuint32[] calldata encryptedFeatures,
+        externalEuint32[] calldata encryptedOutputs,
+        externalEuint32[] calldata encryptedGroundTruth,
+        externalEuint8[] calldata encryptedSegment,
+        bytes calldata inputProof
+    ) public onlyModelWriter(modelId) {
+        require(encryptedSegment.length <= 1, "Schema mismatch");
+        (euint32[] memory features, euint32[] memory outputs, euint32 groundTruth) = PredictionSchema.importVectors(
+            modelSchemas[modelId],
+            encryptedFeatures,
+            encryptedOutputs,
+            encryptedGroundTruth,
+            inputProof
+        );
 
-        if (!isModelMonitored(modelId)) {
-            monitoredModels.push(modelId);
-            modelPerformance[modelId] = PerformanceMetrics({
-                encryptedAccuracy: FHE.asEuint32(0),
-                encryptedDriftScore: FHE.asEuint32(0),
-                encryptedErrorRate: FHE.asEuint32(0)
-            });
+        uint256 predictionId = storePrediction(modelId, keccak256(bytes(modelId)), features[0], outputs[0], groundTruth);
+        predictionFeatures[predictionId] = features;
+        predictionOutputs[predictionId] = outputs;
+        if (encryptedSegment.length == 1) storeSegment(predictionId, FHE.fromExternal(encryptedSegment[0], inputProof));
+    }
+
+    /// @notice Feature and output handles of a vector prediction; both are empty for single-value predictions.
+    function getPredictionVectors(uint256 predictionId) public view returns (
+        euint32[] memory features,
+        euint32[] memory outputs
+    ) {
+        return (predictionFeatures[predictionId], predictionOutputs[predictionId]);
+    }
+
+    /// @notice Records several predictions whose handles all come from one encrypted input and proof.
+    function recordEncryptedPredictionBatch(
+        string memory modelId,
+        externalEuint32[] calldata encryptedInputs,
+        externalEuint32[] calldata encryptedPredictions,
+        externalEuint32[] calldata encryptedGroundTruths,
+        bytes calldata inputProof
+    ) public onlyModelWriter(modelId) {
+        uint256 count = encryptedInputs.length;
+        require(count > 0, "Empty batch");
+        require(
+            encryptedPredictions.length == count && encryptedGroundTruths.length == count,
+            "Batch length mismatch"
+        );
+
+        bytes32 modelHash = keccak256(bytes(modelId));
+        uint256 firstId = predictionCount + 1;
+        for (uint256 i = 0; i < count; i++) {
+            storePrediction(
+                modelId,
+                modelHash,
+                FHE.fromExternal(encryptedInputs[i], inputProof),
+                FHE.fromExternal(encryptedPredictions[i], inputProof),
+                FHE.fromExternal(encryptedGroundTruths[i], inputProof)
+            );
         }
-        
-        emit PredictionRecorded(newId, modelId, block.timestamp);
+
+        emit PredictionBatchRecorded(modelHash, modelId, firstId, count);
     }
 
-    function requestPerformanceAnalysis(uint256 predictionId) public onlyModelOwner(predictions[predictionId].modelId) {
-        EncryptedPrediction storage pred = predictions[predictionId];
-        require(!performanceAlerts[predictionId].isRevealed, "Already analyzed");
+    function requestPerformanceAnalysis(uint256 predictionId) public onlyModelViewer(predictions[predictionId].modelId) {
+        EncryptedPrediction storage pred = beginAnalysis(predictionId);
         
         bytes32[] memory ciphertexts = new bytes32[](3);
         ciphertexts[0] = FHE.toBytes32(pred.encryptedInput);
@@ -109,34 +437,116 @@ contract AiMonitor_FHE is SepoliaConfig {
         require(!alert.isRevealed, "Already processed");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
+        delete analysisPending[predictionId];
         
         (uint32 input, uint32 prediction, uint32 groundTruth) = 
             abi.decode(cleartexts, (uint32, uint32, uint32));
         
+        AlertThresholds storage thresholds = alertThresholds[predictions[predictionId].modelId];
         alert.performanceScore = calculatePerformanceScore(input, prediction, groundTruth);
-        alert.alertLevel = determineAlertLevel(alert.performanceScore);
-        alert.needsRetraining = (alert.performanceScore < 60);
+        alert.alertLevel = determineAlertLevel(alert.performanceScore, thresholds);
+        alert.needsRetraining = (alert.performanceScore < thresholds.retrainingScore);
         alert.isRevealed = true;
         
         emit PerformanceAlertDecrypted(predictionId);
     }
 
-    function updateModelMetrics(string memory modelId, euint32 accuracy, euint32 drift, euint32 errorRate) 
-        public onlyModelOwner(modelId) 
-    {
-        PerformanceMetrics storage metrics = modelPerformance[modelId];
-        metrics.encryptedAccuracy = FHE.add(metrics.encryptedAccuracy, accuracy);
-        metrics.encryptedDriftScore = FHE.add(metrics.encryptedDriftScore, drift);
-        metrics.encryptedErrorRate = FHE.add(metrics.encryptedErrorRate, errorRate);
+    /// @notice Compares the score with the model's thresholds under FHE and decrypts only the alert level and retraining flag.
+    function requestAlertOnlyAnalysis(uint256 predictionId) public onlyModelViewer(predictions[predictionId].modelId) {
+        EncryptedPrediction storage pred = beginAnalysis(predictionId);
+        AlertThresholds storage thresholds = alertThresholds[pred.modelId];
+
+        EncryptedAlert storage alert = encryptedAlerts[predictionId];
+        (alert.level, alert.needsRetraining) = AlertEvaluation.evaluate(
+            pred.encryptedInput,
+            pred.encryptedPrediction,
+            pred.encryptedGroundTruth,
+            thresholds.criticalScore,
+            thresholds.warningScore,
+            thresholds.noticeScore,
+            thresholds.retrainingScore
+        );
+        FHE.allowThis(alert.level);
+        FHE.allowThis(alert.needsRetraining);
+        FHE.allow(alert.level, msg.sender);
+        FHE.allow(alert.needsRetraining, msg.sender);
+
+        bytes32[] memory ciphertexts = new bytes32[](2);
+        ciphertexts[0] = FHE.toBytes32(alert.level);
+        ciphertexts[1] = FHE.toBytes32(alert.needsRetraining);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processAlertOnlyAnalysis.selector);
+        requestToAlertPredictionId[reqId] = predictionId;
+
+        emit AlertOnlyAnalysisRequested(predictionId);
     }
 
-    function requestModelMetricsDecryption(string memory modelId) public onlyModelOwner(modelId) {
-        PerformanceMetrics storage metrics = modelPerformance[modelId];
+    function processAlertOnlyAnalysis(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 predictionId = requestToAlertPredictionId[requestId];
+        require(predictionId != 0, "Invalid request");
+
+        DecryptedAlert storage alert = performanceAlerts[predictionId];
+        require(!alert.isRevealed, "Already processed");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete analysisPending[predictionId];
+
+        (uint8 level, bool needsRetraining) = abi.decode(cleartexts, (uint8, bool));
+        alert.alertLevel = alertLevelName(level);
+        alert.needsRetraining = needsRetraining;
+        alert.alertOnly = true;
+        alert.isRevealed = true;
+
+        emit PerformanceAlertDecrypted(predictionId);
+    }
+
+    function getEncryptedAlert(uint256 predictionId) public view returns (euint8 level, ebool needsRetraining) {
+        EncryptedAlert storage alert = encryptedAlerts[predictionId];
+        return (alert.level, alert.needsRetraining);
+    }
+
+    /// @notice Adds a submission to the model's encrypted sums and lists it in the metric registry with
+    /// its payload, in one transaction so values never reach the sums without their listing.
+    function updateModelMetrics(
+        string memory modelId,
+        externalEuint32 encryptedAccuracy,
+        externalEuint32 encryptedDrift,
+        externalEuint32 encryptedErrorRate,
+        bytes calldata inputProof,
+        string calldata metricId,
+        bytes calldata payload
+    ) public onlyModelWriter(modelId) {
+        ModelMetrics.record(modelPerformance[modelId], encryptedAccuracy, encryptedDrift, encryptedErrorRate, inputProof);
+        metricRegistry.appendWithData(METRIC_COLLECTION, metricId, payload);
+    }
+
+    /// @notice Sets the fixed-point scales clients encode accuracy and loss with; loss thresholds use the loss scale.
+    /// Changing them does not rescale values already submitted, so it is meant for newly registered models.
+    function setMetricScales(
+        string memory modelId,
+        uint32 accuracyScale,
+        uint32 lossScale
+    ) public onlyModelOwner(modelId) {
+        ModelMetrics.setScales(metricScales[modelId], accuracyScale, lossScale);
+        emit MetricScalesUpdated(modelId, accuracyScale, lossScale);
+    }
+
+    function getMetricScales(string memory modelId) public view returns (ModelMetrics.MetricScales memory) {
+        return metricScales[modelId];
+    }
+
+    function requestModelMetricsDecryption(string memory modelId) public onlyModelViewer(modelId) {
+        ModelMetrics.PerformanceMetrics storage metrics = modelPerformance[modelId];
         
-        bytes32[] memory ciphertexts = new bytes32[](3);
-        ciphertexts[0] = FHE.toBytes32(metrics.encryptedAccuracy);
-        ciphertexts[1] = FHE.toBytes32(metrics.encryptedDriftScore);
-        ciphertexts[2] = FHE.toBytes32(metrics.encryptedErrorRate);
+        bytes32[] memory ciphertexts = new bytes32[](4);
+        ciphertexts[0] = FHE.toBytes32(metrics.encryptedAccuracySum);
+        ciphertexts[1] = FHE.toBytes32(metrics.encryptedDriftScoreSum);
+        ciphertexts[2] = FHE.toBytes32(metrics.encryptedErrorRateSum);
+        ciphertexts[3] = FHE.toBytes32(metrics.encryptedSampleCount);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptModelMetrics.selector);
         requestToModelId[reqId] = modelId;
@@ -151,19 +561,297 @@ contract AiMonitor_FHE is SepoliaConfig {
         require(bytes(modelId).length > 0, "Invalid request");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToModelId[requestId];
         
-        (uint32 accuracy, uint32 drift, uint32 errorRate) = 
-            abi.decode(cleartexts, (uint32, uint32, uint32));
+        (uint64 accuracySum, uint64 driftSum, uint64 errorRateSum, uint32 sampleCount) = 
+            abi.decode(cleartexts, (uint64, uint64, uint64, uint32));
+        
+        RevealedMetrics memory revealed = RevealedMetrics({
+            accuracy: mean(accuracySum, sampleCount),
+            driftScore: mean(driftSum, sampleCount),
+            errorRate: mean(errorRateSum, sampleCount),
+            sampleCount: sampleCount,
+            timestamp: block.timestamp
+        });
+        RevealedMetrics[] storage history = revealedMetrics[modelId];
+        history.push(revealed);
+        
+        emit ModelMetricsDecrypted(
+            modelId,
+            history.length - 1,
+            revealed.accuracy,
+            revealed.driftScore,
+            revealed.errorRate,
+            sampleCount,
+            block.timestamp
+        );
+    }
+
+    function getRevealedMetricsCount(string memory modelId) public view returns (uint256) {
+        return revealedMetrics[modelId].length;
+    }
+
+    function getRevealedMetrics(string memory modelId, uint256 index) public view returns (
+        uint32 accuracy,
+        uint32 driftScore,
+        uint32 errorRate,
+        uint32 sampleCount,
+        uint256 timestamp
+    ) {
+        RevealedMetrics storage m = revealedMetrics[modelId][index];
+        return (m.accuracy, m.driftScore, m.errorRate, m.sampleCount, m.timestamp);
+    }
+
+    function getLatestRevealedMetrics(string memory modelId) public view returns (
+        uint32 accuracy,
+        uint32 driftScore,
+        uint32 errorRate,
+        uint32 sampleCount,
+        uint256 timestamp
+    ) {
+        RevealedMetrics[] storage history = revealedMetrics[modelId];
+        require(history.length > 0, "No revealed metrics");
+        return getRevealedMetrics(modelId, history.length - 1);
+    }
+
+    /// @notice Starts counting labelled predictions of the model in an encrypted confusion matrix.
+    function enableClassification(string memory modelId) public onlyModelOwner(modelId) {
+        require(!classificationModels[modelId], "Classification already enabled");
+        classificationModels[modelId] = true;
+
+        ClassificationMetrics.initialize(confusionMatrices[modelId]);
+
+        emit ClassificationEnabled(modelId);
+    }
+
+    function requestConfusionMatrixDecryption(string memory modelId) public onlyModelViewer(modelId) {
+        require(classificationModels[modelId], "Not a classification model");
+        ClassificationMetrics.ConfusionMatrix storage matrix = confusionMatrices[modelId];
+
+        bytes32[] memory ciphertexts = new bytes32[](4);
+        ciphertexts[0] = FHE.toBytes32(matrix.truePositives);
+        ciphertexts[1] = FHE.toBytes32(matrix.falsePositives);
+        ciphertexts[2] = FHE.toBytes32(matrix.trueNegatives);
+        ciphertexts[3] = FHE.toBytes32(matrix.falseNegatives);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processConfusionMatrixDecryption.selector);
+        requestToClassificationModelId[reqId] = modelId;
+    }
+
+    function processConfusionMatrixDecryption(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        string memory modelId = requestToClassificationModelId[requestId];
+        require(bytes(modelId).length > 0, "Invalid request");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToClassificationModelId[requestId];
+
+        (uint32 tp, uint32 fp, uint32 tn, uint32 fn) = abi.decode(cleartexts, (uint32, uint32, uint32, uint32));
+        revealedConfusionMatrices[modelId] = RevealedConfusionMatrix({
+            truePositives: tp,
+            falsePositives: fp,
+            trueNegatives: tn,
+            falseNegatives: fn,
+            timestamp: block.timestamp,
+            isRevealed: true
+        });
+
+        emit ConfusionMatrixDecrypted(modelId, tp, fp, tn, fn);
+    }
+
+    function getConfusionMatrix(string memory modelId) public view returns (
+        uint32 truePositives,
+        uint32 falsePositives,
+        uint32 trueNegatives,
+        uint32 falseNegatives,
+        uint256 timestamp,
+        bool isRevealed
+    ) {
+        RevealedConfusionMatrix storage m = revealedConfusionMatrices[modelId];
+        return (m.truePositives, m.falsePositives, m.trueNegatives, m.falseNegatives, m.timestamp, m.isRevealed);
+    }
+
+    /// @notice Ratios from the last revealed confusion matrix; a ratio with an empty denominator is 0.
+    function getClassificationMetrics(string memory modelId) public view returns (
+        uint256 precision,
+        uint256 recall,
+        uint256 f1,
+        uint256 accuracy
+    ) {
+        RevealedConfusionMatrix storage m = revealedConfusionMatrices[modelId];
+        require(m.isRevealed, "No revealed confusion matrix");
+
+        uint256 tp = m.truePositives;
+        uint256 fp = m.falsePositives;
+        uint256 fn = m.falseNegatives;
+        precision = ratio(tp, tp + fp);
+        recall = ratio(tp, tp + fn);
+        f1 = ratio(2 * tp, 2 * tp + fp + fn);
+        accuracy = ratio(tp + m.trueNegatives, tp + fp + fn + m.trueNegatives);
+    }
+
+    /// @notice Sets the segment count and gap thresholds and restarts all segment counters.
+    function configureFairness(
+        string memory modelId,
+        FairnessMetrics.Config calldata config
+    ) public onlyModelOwner(modelId) {
+        FairnessMetrics.configure(fairnessStates[modelId], config);
+        emit FairnessConfigured(modelId, config.segmentCount);
+    }
+
+    function getFairnessConfig(string memory modelId) public view returns (FairnessMetrics.Config memory) {
+        return fairnessStates[modelId].config;
+    }
+
+    /// @notice Compares a segment with segment 0 under FHE and decrypts only the aggregate gap flags.
+    function requestFairnessEvaluation(string memory modelId, uint8 segment) public onlyModelViewer(modelId) {
+        (ebool parity, ebool opportunity, ebool accuracy) = FairnessMetrics.evaluate(fairnessStates[modelId], segment);
+        FHE.allowThis(parity);
+        FHE.allowThis(opportunity);
+        FHE.allowThis(accuracy);
+
+        bytes32[] memory ciphertexts = new bytes32[](3);
+        ciphertexts[0] = FHE.toBytes32(parity);
+        ciphertexts[1] = FHE.toBytes32(opportunity);
+        ciphertexts[2] = FHE.toBytes32(accuracy);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processFairnessEvaluation.selector);
+        requestToFairnessModelId[reqId] = modelId;
+        requestToFairnessSegment[reqId] = segment;
+    }
+
+    function processFairnessEvaluation(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        string memory modelId = requestToFairnessModelId[requestId];
+        require(bytes(modelId).length > 0, "Invalid request");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        uint8 segment = requestToFairnessSegment[requestId];
+        delete requestToFairnessModelId[requestId];
+
+        (bool parity, bool opportunity, bool accuracy) = abi.decode(cleartexts, (bool, bool, bool));
+        fairnessReveals[modelId][segment] = FairnessReveal({
+            parityGapExceeded: parity,
+            opportunityGapExceeded: opportunity,
+            accuracyGapExceeded: accuracy,
+            timestamp: block.timestamp,
+            isRevealed: true
+        });
+
+        emit FairnessDecrypted(modelId, segment, parity, opportunity, accuracy);
+    }
+
+    function getFairnessReveal(string memory modelId, uint8 segment) public view returns (FairnessReveal memory) {
+        return fairnessReveals[modelId][segment];
+    }
+
+    /// @notice Sets the window size and thresholds and discards both drift windows.
+    function configureDrift(
+        string memory modelId,
+        uint32 windowSize,
+        uint64 meanThreshold,
+        uint128 varianceThreshold
+    ) public onlyModelOwner(modelId) {
+        require(windowSize > 0, "Invalid window size");
+        driftConfigs[modelId] = DriftDetection.DriftConfig({
+            windowSize: windowSize,
+            meanThreshold: meanThreshold,
+            varianceThreshold: varianceThreshold
+        });
+        resetDriftReference(modelId);
+        emit DriftConfigured(modelId, windowSize, meanThreshold, varianceThreshold);
+    }
+
+    /// @notice Makes the next full window of inputs the new reference window.
+    function resetDriftReference(string memory modelId) public onlyModelOwner(modelId) {
+        DriftDetection.DriftState storage state = driftStates[modelId];
+        state.referenceWindow.count = 0;
+        state.currentWindow.count = 0;
+    }
+
+    function getDriftStatus(string memory modelId) public view returns (
+        uint32 referenceCount,
+        uint32 currentCount,
+        uint256 evaluations,
+        ebool encryptedDriftFlag
+    ) {
+        DriftDetection.DriftState storage state = driftStates[modelId];
+        return (
+            state.referenceWindow.count,
+            state.currentWindow.count,
+            state.evaluations,
+            state.encryptedDriftFlag
+        );
+    }
+
+    function requestDriftDecryption(string memory modelId) public onlyModelViewer(modelId) {
+        DriftDetection.DriftState storage state = driftStates[modelId];
+        require(state.evaluations > 0, "No drift evaluation");
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(state.encryptedDriftFlag);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processDriftDecryption.selector);
+        requestToDriftModelId[reqId] = modelId;
+    }
+
+    function processDriftDecryption(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        string memory modelId = requestToDriftModelId[requestId];
+        require(bytes(modelId).length > 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete requestToDriftModelId[requestId];
+        
+        bool drifted = abi.decode(cleartexts, (bool));
+        uint256 evaluation = driftStates[modelId].evaluations;
+        driftReveals[modelId] = DriftReveal({
+            drifted: drifted,
+            evaluation: evaluation,
+            timestamp: block.timestamp,
+            isRevealed: true
+        });
+        
+        emit DriftDecrypted(modelId, evaluation, drifted);
+    }
+
+    function getDriftReveal(string memory modelId) public view returns (
+        bool drifted,
+        uint256 evaluation,
+        uint256 timestamp,
+        bool isRevealed
+    ) {
+        DriftReveal storage d = driftReveals[modelId];
+        return (d.drifted, d.evaluation, d.timestamp, d.isRevealed);
     }
 
     function getDecryptedAlert(uint256 predictionId) public view returns (
         uint32 score,
         string memory alert,
         bool retraining,
-        bool isRevealed
+        bool isRevealed,
+        bool alertOnly
     ) {
         DecryptedAlert storage a = performanceAlerts[predictionId];
-        return (a.performanceScore, a.alertLevel, a.needsRetraining, a.isRevealed);
+        return (a.performanceScore, a.alertLevel, a.needsRetraining, a.isRevealed, a.alertOnly);
+    }
+
+    /// @dev Both analysis paths reveal into the same alert, so only one request per prediction may be in flight.
+    function beginAnalysis(uint256 predictionId) private returns (EncryptedPrediction storage pred) {
+        pred = predictions[predictionId];
+        require(!performanceAlerts[predictionId].isRevealed, "Already analyzed");
+        require(!analysisPending[predictionId], "Analysis pending");
+        require(!pred.labelPending, "Label pending");
+        analysisPending[predictionId] = true;
     }
 
     function calculatePerformanceScore(
@@ -171,36 +859,109 @@ contract AiMonitor_FHE is SepoliaConfig {
         uint32 prediction,
         uint32 groundTruth
     ) private pure returns (uint32) {
-        uint32 error = prediction > groundTruth ? prediction - groundTruth : groundTruth - prediction;
-        return 100 - (error * 100 / (input > 0 ? input : 1));
+        uint256 error = prediction > groundTruth ? prediction - groundTruth : groundTruth - prediction;
+        // Widened so large errors neither overflow nor underflow the score; they floor at 0.
+        uint256 relativeError = (error * 100) / (input > 0 ? input : 1);
+        return relativeError >= 100 ? 0 : uint32(100 - relativeError);
     }
 
-    function determineAlertLevel(uint32 score) private pure returns (string memory) {
-        if (score < 50) return "Critical";
-        if (score < 70) return "Warning";
-        if (score < 85) return "Notice";
+    function determineAlertLevel(
+        uint32 score,
+        AlertThresholds storage thresholds
+    ) private view returns (string memory) {
+        // Thresholds are ordered, so the level is the number of cut-offs the score falls below
+        uint8 level;
+        if (score < thresholds.noticeScore) level++;
+        if (score < thresholds.warningScore) level++;
+        if (score < thresholds.criticalScore) level++;
+        return alertLevelName(level);
+    }
+
+    function alertLevelName(uint8 level) private pure returns (string memory) {
+        if (level == 3) return "Critical";
+        if (level == 2) return "Warning";
+        if (level == 1) return "Notice";
         return "Normal";
     }
 
-    function isModelMonitored(string memory modelId) private view returns (bool) {
-        for (uint i = 0; i < monitoredModels.length; i++) {
-            if (keccak256(bytes(monitoredModels[i])) == keccak256(bytes(modelId))) {
-                return true;
-            }
+
+    function trackClassification(string memory modelId, euint32 prediction, euint32 groundTruth) private {
+        if (!classificationModels[modelId]) return;
+        ClassificationMetrics.track(confusionMatrices[modelId], prediction, groundTruth);
+    }
+
+    function trackFairness(EncryptedPrediction storage pred, euint32 groundTruth) private {
+        if (!FHE.isInitialized(pred.encryptedSegment)) return;
+        FairnessMetrics.track(fairnessStates[pred.modelId], pred.encryptedSegment, pred.encryptedPrediction, groundTruth);
+    }
+
+    function ratio(uint256 numerator, uint256 denominator) private pure returns (uint256) {
+        return denominator == 0 ? 0 : (numerator * RATIO_SCALE) / denominator;
+    }
+
+    function trackDriftSample(string memory modelId, euint32 input) private {
+        if (driftConfigs[modelId].windowSize == 0) return;
+
+        DriftDetection.DriftState storage state = driftStates[modelId];
+        if (DriftDetection.track(driftConfigs[modelId], state, input, modelAccess[modelId].owner)) {
+            emit DriftEvaluated(modelId, state.evaluations);
         }
-        return false;
     }
 
-    function bytes32ToUint(bytes32 b) private pure returns (uint256) {
-        return uint256(b);
+    /// @dev The mean of 32-bit samples always fits back into 32 bits.
+    function mean(uint64 sum, uint32 count) private pure returns (uint32) {
+        return count == 0 ? 0 : uint32(sum / count);
     }
 
-    function getModelFromHash(uint256 hash) private view returns (string memory) {
-        for (uint i = 0; i < monitoredModels.length; i++) {
-            if (bytes32ToUint(keccak256(bytes(monitoredModels[i]))) == hash) {
-                return monitoredModels[i];
-            }
+    function storePrediction(
+        string memory modelId,
+        bytes32 modelHash,
+        euint32 input,
+        euint32 prediction,
+        euint32 groundTruth
+    ) private returns (uint256) {
+        bool labelPending = !FHE.isInitialized(groundTruth);
+        allowStored(input);
+        allowStored(prediction);
+        trackDriftSample(modelId, input);
+        if (!labelPending) {
+            allowStored(groundTruth);
+            trackClassification(modelId, prediction, groundTruth);
         }
-        revert("Model not found");
+
+        predictionCount += 1;
+        uint256 newId = predictionCount;
+
+        predictions[newId] = EncryptedPrediction({
+            id: newId,
+            encryptedInput: input,
+            encryptedPrediction: prediction,
+            encryptedGroundTruth: groundTruth,
+            timestamp: block.timestamp,
+            modelId: modelId,
+            labelPending: labelPending,
+            encryptedSegment: euint8.wrap(0)
+        });
+
+        emit PredictionRecorded(newId, modelHash, modelId, block.timestamp, labelPending);
+        return newId;
+    }
+
+
+    /// @dev A labelled prediction is counted for fairness as soon as its segment is known.
+    function storeSegment(uint256 predictionId, euint8 segment) private {
+        EncryptedPrediction storage pred = predictions[predictionId];
+        FHE.allowThis(segment);
+        FHE.allow(segment, msg.sender);
+        pred.encryptedSegment = segment;
+        if (!pred.labelPending) trackFairness(pred, pred.encryptedGroundTruth);
+
+        emit SegmentAssigned(predictionId);
+    }
+
+    /// @dev Keeps the handle usable by this contract in later transactions and lets the submitter decrypt it.
+    function allowStored(euint32 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
     }
 }
\ No newline at end of file
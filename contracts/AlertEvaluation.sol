@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Compares an encrypted prediction's performance score with alert thresholds without decrypting it.
+/// @dev Deployed on its own and linked into AiMonitor_FHE, which would otherwise exceed the contract size limit.
+library AlertEvaluation {
+    /// @notice Score thresholds are 0-100, as in AiMonitor_FHE.AlertThresholds.
+    /// @return level 0 Normal, 1 Notice, 2 Warning, 3 Critical.
+    function evaluate(
+        euint32 input,
+        euint32 prediction,
+        euint32 groundTruth,
+        uint32 criticalScore,
+        uint32 warningScore,
+        uint32 noticeScore,
+        uint32 retrainingScore
+    ) external returns (euint8 level, ebool needsRetraining) {
+        euint32 error = FHE.select(
+            FHE.lt(prediction, groundTruth),
+            FHE.sub(groundTruth, prediction),
+            FHE.sub(prediction, groundTruth)
+        );
+        // Widened so the scaled error and scaled input cannot overflow
+        euint64 scaledError = FHE.mul(FHE.asEuint64(error), 100);
+        euint64 scaledInput = FHE.asEuint64(FHE.max(input, 1));
+
+        level = FHE.add(
+            FHE.add(
+                FHE.asEuint8(scoreBelow(scaledError, scaledInput, noticeScore)),
+                FHE.asEuint8(scoreBelow(scaledError, scaledInput, warningScore))
+            ),
+            FHE.asEuint8(scoreBelow(scaledError, scaledInput, criticalScore))
+        );
+        needsRetraining = scoreBelow(scaledError, scaledInput, retrainingScore);
+    }
+
+    /// @dev Encrypted form of calculatePerformanceScore(...) < threshold: with R = floor(100 * error / input),
+    /// the score drops below t exactly when R >= 101 - t, i.e. when 100 * error >= (101 - t) * input.
+    function scoreBelow(euint64 scaledError, euint64 input, uint32 threshold) private returns (ebool) {
+        if (threshold == 0) return FHE.asEbool(false);
+        return FHE.ge(scaledError, FHE.mul(input, uint64(101 - threshold)));
+    }
+}
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Encrypted confusion matrix of a binary classifier.
+/// @dev Deployed on its own and linked into AiMonitor_FHE, which would otherwise exceed the contract size limit.
+library ClassificationMetrics {
+    // Binary classifiers: 1 is the positive class for both predictions and labels
+    struct ConfusionMatrix {
+        euint32 truePositives;
+        euint32 falsePositives;
+        euint32 trueNegatives;
+        euint32 falseNegatives;
+    }
+
+    function initialize(ConfusionMatrix storage matrix) external {
+        matrix.truePositives = FHE.asEuint32(0);
+        matrix.falsePositives = FHE.asEuint32(0);
+        matrix.trueNegatives = FHE.asEuint32(0);
+        matrix.falseNegatives = FHE.asEuint32(0);
+        allowConfusionMatrix(matrix);
+    }
+
+    function track(ConfusionMatrix storage matrix, euint32 prediction, euint32 groundTruth) external {
+        ebool predictedPositive = FHE.eq(prediction, 1);
+        ebool actualPositive = FHE.eq(groundTruth, 1);
+        ebool correct = FHE.eq(predictedPositive, actualPositive);
+
+        matrix.truePositives = increment(matrix.truePositives, FHE.and(correct, actualPositive));
+        matrix.trueNegatives = increment(matrix.trueNegatives, FHE.and(correct, FHE.not(actualPositive)));
+        matrix.falsePositives = increment(matrix.falsePositives, FHE.and(FHE.not(correct), predictedPositive));
+        matrix.falseNegatives = increment(matrix.falseNegatives, FHE.and(FHE.not(correct), actualPositive));
+        allowConfusionMatrix(matrix);
+    }
+
+    function increment(euint32 counter, ebool condition) private returns (euint32) {
+        return FHE.select(condition, FHE.add(counter, 1), counter);
+    }
+
+    function allowConfusionMatrix(ConfusionMatrix storage matrix) private {
+        FHE.allowThis(matrix.truePositives);
+        FHE.allowThis(matrix.falsePositives);
+        FHE.allowThis(matrix.trueNegatives);
+        FHE.allowThis(matrix.falseNegatives);
+    }
+}
@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, euint128, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Windowed mean and variance comparison of encrypted model inputs.
+/// @dev Deployed on its own and linked into AiMonitor_FHE, which would otherwise exceed the contract size limit.
+library DriftDetection {
+    // Running moments of encrypted inputs over one window
+    struct DriftWindow {
+        euint64 sum;
+        euint128 sumOfSquares;
+        uint32 count;
+    }
+
+    // Thresholds are in input units (mean) and squared input units (variance)
+    struct DriftConfig {
+        uint32 windowSize;
+        uint64 meanThreshold;
+        uint128 varianceThreshold;
+    }
+
+    struct DriftState {
+        DriftWindow referenceWindow;
+        DriftWindow currentWindow;
+        euint64 encryptedMeanDelta;
+        euint128 encryptedVarianceDelta;
+        ebool encryptedDriftFlag;
+        uint256 evaluations;
+    }
+
+    /// @notice Fills the reference window first, then evaluates drift each time the current window fills.
+    /// @return evaluated True when this sample completed a window and produced a new drift flag.
+    function track(
+        DriftConfig storage config,
+        DriftState storage state,
+        euint32 input,
+        address owner
+    ) external returns (bool evaluated) {
+        uint32 windowSize = config.windowSize;
+        if (state.referenceWindow.count < windowSize) {
+            addToWindow(state.referenceWindow, input);
+            return false;
+        }
+
+        addToWindow(state.currentWindow, input);
+        if (state.currentWindow.count < windowSize) return false;
+
+        evaluateDrift(config, state, windowSize, owner);
+        state.currentWindow.count = 0;
+        return true;
+    }
+
+    function addToWindow(DriftWindow storage window, euint32 sample) private {
+        euint64 value = FHE.asEuint64(sample);
+        euint128 square = FHE.mul(FHE.asEuint128(value), FHE.asEuint128(value));
+        if (window.count == 0) {
+            window.sum = value;
+            window.sumOfSquares = square;
+        } else {
+            window.sum = FHE.add(window.sum, value);
+            window.sumOfSquares = FHE.add(window.sumOfSquares, square);
+        }
+        window.count += 1;
+        FHE.allowThis(window.sum);
+        FHE.allowThis(window.sumOfSquares);
+    }
+
+    function evaluateDrift(
+        DriftConfig storage config,
+        DriftState storage state,
+        uint32 windowSize,
+        address owner
+    ) private {
+        euint64 referenceMean = FHE.div(state.referenceWindow.sum, windowSize);
+        euint64 currentMean = FHE.div(state.currentWindow.sum, windowSize);
+        // floor(E[x^2]) >= floor(E[x])^2, so the integer variance never underflows
+        euint128 referenceVariance = windowVariance(state.referenceWindow, referenceMean, windowSize);
+        euint128 currentVariance = windowVariance(state.currentWindow, currentMean, windowSize);
+
+        state.encryptedMeanDelta = FHE.select(
+            FHE.gt(currentMean, referenceMean),
+            FHE.sub(currentMean, referenceMean),
+            FHE.sub(referenceMean, currentMean)
+        );
+        state.encryptedVarianceDelta = FHE.select(
+            FHE.gt(currentVariance, referenceVariance),
+            FHE.sub(currentVariance, referenceVariance),
+            FHE.sub(referenceVariance, currentVariance)
+        );
+        state.encryptedDriftFlag = FHE.or(
+            FHE.gt(state.encryptedMeanDelta, config.meanThreshold),
+            FHE.gt(state.encryptedVarianceDelta, config.varianceThreshold)
+        );
+        state.evaluations += 1;
+
+        FHE.allowThis(state.encryptedMeanDelta);
+        FHE.allowThis(state.encryptedVarianceDelta);
+        FHE.allowThis(state.encryptedDriftFlag);
+        FHE.allow(state.encryptedMeanDelta, owner);
+        FHE.allow(state.encryptedVarianceDelta, owner);
+        FHE.allow(state.encryptedDriftFlag, owner);
+    }
+
+    function windowVariance(
+        DriftWindow storage window,
+        euint64 windowMean,
+        uint32 windowSize
+    ) private returns (euint128) {
+        euint128 mean128 = FHE.asEuint128(windowMean);
+        return FHE.sub(FHE.div(window.sumOfSquares, windowSize), FHE.mul(mean128, mean128));
+    }
+}
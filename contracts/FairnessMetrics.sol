@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, euint64, euint128, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Per-segment outcome counters for binary classifiers and the fairness gaps derived from them.
+/// @dev Deployed on its own and linked into AiMonitor_FHE, which would otherwise exceed the contract size limit.
+library FairnessMetrics {
+    uint8 internal constant MAX_SEGMENTS = 4;
+    uint128 private constant GAP_SCALE = 10000;
+
+    // Predictions and labels use 1 as the positive class
+    struct SegmentCounters {
+        euint32 total;
+        euint32 correct;
+        euint32 predictedPositive;
+        euint32 actualPositive;
+        euint32 truePositive;
+    }
+
+    // Segment 0 is the reference group; gap thresholds are in basis points
+    struct Config {
+        uint8 segmentCount;
+        uint16 parityThreshold;
+        uint16 opportunityThreshold;
+        uint16 accuracyThreshold;
+    }
+
+    struct State {
+        Config config;
+        SegmentCounters[MAX_SEGMENTS] segments;
+    }
+
+    /// @notice Applies the config and restarts every segment from zero.
+    function configure(State storage state, Config calldata config) external {
+        require(config.segmentCount >= 2 && config.segmentCount <= MAX_SEGMENTS, "Invalid segment count");
+        state.config = config;
+
+        for (uint8 s = 0; s < config.segmentCount; s++) {
+            SegmentCounters storage counters = state.segments[s];
+            counters.total = FHE.asEuint32(0);
+            counters.correct = FHE.asEuint32(0);
+            counters.predictedPositive = FHE.asEuint32(0);
+            counters.actualPositive = FHE.asEuint32(0);
+            counters.truePositive = FHE.asEuint32(0);
+            allowCounters(counters);
+        }
+    }
+
+    /// @notice Adds one labelled prediction to its segment; ids outside the configured range are not counted.
+    function track(State storage state, euint8 segment, euint32 prediction, euint32 groundTruth) external {
+        uint8 segmentCount = state.config.segmentCount;
+        if (segmentCount == 0) return;
+
+        ebool predictedPositive = FHE.eq(prediction, 1);
+        ebool actualPositive = FHE.eq(groundTruth, 1);
+        ebool correct = FHE.eq(predictedPositive, actualPositive);
+        ebool truePositive = FHE.and(correct, actualPositive);
+
+        for (uint8 s = 0; s < segmentCount; s++) {
+            SegmentCounters storage counters = state.segments[s];
+            ebool inSegment = FHE.eq(segment, s);
+            counters.total = increment(counters.total, inSegment);
+            counters.correct = increment(counters.correct, FHE.and(inSegment, correct));
+            counters.predictedPositive = increment(counters.predictedPositive, FHE.and(inSegment, predictedPositive));
+            counters.actualPositive = increment(counters.actualPositive, FHE.and(inSegment, actualPositive));
+            counters.truePositive = increment(counters.truePositive, FHE.and(inSegment, truePositive));
+            allowCounters(counters);
+        }
+    }
+
+    /// @notice Flags whether the segment's positive rate (demographic parity), true positive rate
+    /// (equal opportunity) or accuracy differs from segment 0 by more than the configured threshold.
+    /// @dev One segment per call keeps the evaluation within the per-transaction HCU limit.
+    function evaluate(State storage state, uint8 segment) external returns (
+        ebool parityGapExceeded,
+        ebool opportunityGapExceeded,
+        ebool accuracyGapExceeded
+    ) {
+        Config storage config = state.config;
+        require(segment > 0 && segment < config.segmentCount, "Invalid segment");
+
+        SegmentCounters storage baseline = state.segments[0];
+        SegmentCounters storage counters = state.segments[segment];
+        euint64 total = FHE.asEuint64(counters.total);
+        euint64 baselineTotal = FHE.asEuint64(baseline.total);
+        euint64 totals = FHE.mul(total, baselineTotal);
+
+        parityGapExceeded = gapExceeds(
+            FHE.mul(FHE.asEuint64(counters.predictedPositive), baselineTotal),
+            FHE.mul(FHE.asEuint64(baseline.predictedPositive), total),
+            totals,
+            config.parityThreshold
+        );
+        accuracyGapExceeded = gapExceeds(
+            FHE.mul(FHE.asEuint64(counters.correct), baselineTotal),
+            FHE.mul(FHE.asEuint64(baseline.correct), total),
+            totals,
+            config.accuracyThreshold
+        );
+
+        euint64 positives = FHE.asEuint64(counters.actualPositive);
+        euint64 baselinePositives = FHE.asEuint64(baseline.actualPositive);
+        opportunityGapExceeded = gapExceeds(
+            FHE.mul(FHE.asEuint64(counters.truePositive), baselinePositives),
+            FHE.mul(FHE.asEuint64(baseline.truePositive), positives),
+            FHE.mul(positives, baselinePositives),
+            config.opportunityThreshold
+        );
+    }
+
+    /// @dev With a/b and c/d cross-multiplied into left = a*d, right = c*b and denominator = b*d,
+    /// tests |a/b - c/d| > threshold / GAP_SCALE without encrypted division. Products of 32-bit
+    /// counters fit in 64 bits; only the final scaling needs 128. An empty segment never flags.
+    function gapExceeds(
+        euint64 left,
+        euint64 right,
+        euint64 denominator,
+        uint16 threshold
+    ) private returns (ebool) {
+        euint64 difference = FHE.select(FHE.gt(left, right), FHE.sub(left, right), FHE.sub(right, left));
+        return FHE.gt(
+            FHE.mul(FHE.asEuint128(difference), GAP_SCALE),
+            FHE.mul(FHE.asEuint128(denominator), uint128(threshold))
+        );
+    }
+
+    function increment(euint32 counter, ebool condition) private returns (euint32) {
+        return FHE.select(condition, FHE.add(counter, 1), counter);
+    }
+
+    function allowCounters(SegmentCounters storage counters) private {
+        FHE.allowThis(counters.total);
+        FHE.allowThis(counters.correct);
+        FHE.allowThis(counters.predictedPositive);
+        FHE.allowThis(counters.actualPositive);
+        FHE.allowThis(counters.truePositive);
+    }
+}
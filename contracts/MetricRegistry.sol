@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Key-value store the registry writes metric payloads to; implemented by UniversalAdapter.
+interface IDataStore {
+    function setData(string calldata key, bytes calldata value) external;
+}
+
+/// @notice Append-only, paged lists of ids. Replaces JSON arrays that clients read, extend and
+/// write back through UniversalAdapter.setData, which loses concurrent appends.
+contract MetricRegistry {
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    /// @notice Payloads are stored under this prefix followed by the item, the key clients read them from
+    string public constant PAYLOAD_KEY_PREFIX = "metric_";
+
+    IDataStore public immutable dataStore;
+    address public immutable owner;
+
+    mapping(string => string[]) private collections;
+    mapping(string => mapping(string => bool)) private listed;
+    mapping(address => bool) private writers;
+    mapping(string => bool) private payloadStored;
+
+    event ItemAppended(string indexed collection, uint256 index, string item, address indexed sender);
+    event WriterUpdated(address indexed account, bool allowed);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not registry owner");
+        _;
+    }
+
+    /// @dev Listing is reserved to writers; otherwise anyone could list an id first and make the
+    /// real submission for it revert.
+    modifier onlyWriter() {
+        require(writers[msg.sender], "Not a registry writer");
+        _;
+    }
+
+    constructor(IDataStore dataStore_) {
+        dataStore = dataStore_;
+        owner = msg.sender;
+        writers[msg.sender] = true;
+        emit WriterUpdated(msg.sender, true);
+    }
+
+    function setWriter(address account, bool allowed) public onlyOwner {
+        writers[account] = allowed;
+        emit WriterUpdated(account, allowed);
+    }
+
+    function isWriter(address account) public view returns (bool) {
+        return writers[account];
+    }
+
+    function append(string calldata collection, string calldata item) public onlyWriter returns (uint256 index) {
+        return list(collection, item);
+    }
+
+    /// @notice Stores the item's payload in the data store and lists the item in one transaction,
+    /// so a payload is never left without its index entry or the other way round. Metric submissions
+    /// come in through AiMonitor_FHE, which is made a writer at deployment.
+    /// @dev Every write reaches the data store with this contract as sender, so the key is derived
+    /// from the item and written once; a caller cannot overwrite the payload of another item.
+    function appendWithData(
+        string calldata collection,
+        string calldata item,
+        bytes calldata value
+    ) public onlyWriter returns (uint256 index) {
+        require(address(dataStore) != address(0), "No data store");
+        string memory key = string.concat(PAYLOAD_KEY_PREFIX, item);
+        require(!payloadStored[key], "Payload already stored");
+        payloadStored[key] = true;
+        index = list(collection, item);
+        dataStore.setData(key, value);
+    }
+
+    /// @notice Appends every item not listed yet, so an interrupted migration can simply be re-run.
+    function appendBatch(string calldata collection, string[] calldata items) public onlyWriter {
+        for (uint256 i = 0; i < items.length; i++) {
+            if (!listed[collection][items[i]]) store(collection, items[i]);
+        }
+    }
+
+    function count(string calldata collection) public view returns (uint256) {
+        return collections[collection].length;
+    }
+
+    function isListed(string calldata collection, string calldata item) public view returns (bool) {
+        return listed[collection][item];
+    }
+
+    /// @notice Returns up to `limit` items starting at `offset`, in append order.
+    function getItems(
+        string calldata collection,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (string[] memory page) {
+        require(limit <= MAX_PAGE_SIZE, "Page too large");
+        string[] storage items = collections[collection];
+        if (offset >= items.length) return new string[](0);
+
+        uint256 end = offset + limit > items.length ? items.length : offset + limit;
+        page = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = items[i];
+        }
+    }
+
+    function list(string calldata collection, string calldata item) private returns (uint256 index) {
+        require(!listed[collection][item], "Item already listed");
+        return store(collection, item);
+    }
+
+    function store(string calldata collection, string calldata item) private returns (uint256 index) {
+        require(bytes(item).length > 0, "Empty item");
+        string[] storage items = collections[collection];
+        index = items.length;
+        items.push(item);
+        listed[collection][item] = true;
+        emit ItemAppended(collection, index, item, msg.sender);
+    }
+}
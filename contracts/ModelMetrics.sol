@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Encrypted running sums of submitted model metrics and the fixed-point scales they are encoded with.
+/// @dev Deployed on its own and linked into AiMonitor_FHE, which would otherwise exceed the contract size limit.
+library ModelMetrics {
+    uint32 internal constant DEFAULT_ACCURACY_SCALE = 100;
+    uint32 internal constant DEFAULT_LOSS_SCALE = 10000;
+
+    // Running sums are 64-bit so any number of 32-bit samples below 2^32 cannot overflow
+    struct PerformanceMetrics {
+        euint64 encryptedAccuracySum;
+        euint64 encryptedDriftScoreSum;
+        euint64 encryptedErrorRateSum;
+        euint32 encryptedSampleCount;
+    }
+
+    // A percentage accuracy of 97.5 is encrypted as 97.5 * accuracyScale; loss likewise with lossScale
+    struct MetricScales {
+        uint32 accuracyScale;
+        uint32 lossScale;
+    }
+
+    function initialize(PerformanceMetrics storage metrics, MetricScales storage scales) external {
+        metrics.encryptedAccuracySum = FHE.asEuint64(0);
+        metrics.encryptedDriftScoreSum = FHE.asEuint64(0);
+        metrics.encryptedErrorRateSum = FHE.asEuint64(0);
+        metrics.encryptedSampleCount = FHE.asEuint32(0);
+        allowMetrics(metrics);
+        scales.accuracyScale = DEFAULT_ACCURACY_SCALE;
+        scales.lossScale = DEFAULT_LOSS_SCALE;
+    }
+
+    function record(
+        PerformanceMetrics storage metrics,
+        externalEuint32 encryptedAccuracy,
+        externalEuint32 encryptedDrift,
+        externalEuint32 encryptedErrorRate,
+        bytes calldata inputProof
+    ) external {
+        metrics.encryptedAccuracySum = accumulate(metrics.encryptedAccuracySum, FHE.fromExternal(encryptedAccuracy, inputProof));
+        metrics.encryptedDriftScoreSum = accumulate(metrics.encryptedDriftScoreSum, FHE.fromExternal(encryptedDrift, inputProof));
+        metrics.encryptedErrorRateSum = accumulate(metrics.encryptedErrorRateSum, FHE.fromExternal(encryptedErrorRate, inputProof));
+        metrics.encryptedSampleCount = FHE.add(metrics.encryptedSampleCount, 1);
+        allowMetrics(metrics);
+    }
+
+    function setScales(MetricScales storage scales, uint32 accuracyScale, uint32 lossScale) external {
+        require(accuracyScale > 0 && lossScale > 0, "Invalid metric scales");
+        scales.accuracyScale = accuracyScale;
+        scales.lossScale = lossScale;
+    }
+
+    function accumulate(euint64 sum, euint32 sample) private returns (euint64) {
+        return FHE.add(sum, FHE.asEuint64(sample));
+    }
+
+    function allowMetrics(PerformanceMetrics storage metrics) private {
+        FHE.allowThis(metrics.encryptedAccuracySum);
+        FHE.allowThis(metrics.encryptedDriftScoreSum);
+        FHE.allowThis(metrics.encryptedErrorRateSum);
+        FHE.allowThis(metrics.encryptedSampleCount);
+    }
+}
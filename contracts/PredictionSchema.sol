@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Declared shape of a model's multi-feature, multi-output predictions.
+/// @dev Deployed on its own and linked into AiMonitor_FHE, which would otherwise exceed the contract size limit.
+library PredictionSchema {
+    // One input proof carries at most 2048 bits, i.e. 64 euint32 values, one of them the ground truth
+    uint256 internal constant MAX_VALUES = 64;
+
+    // Zero counts mean the model only records single-value predictions
+    struct Schema {
+        uint8 featureCount;
+        uint8 outputArity;
+    }
+
+    function configure(Schema storage schema, uint8 featureCount, uint8 outputArity) external {
+        require(
+            featureCount > 0 && outputArity > 0 && uint256(featureCount) + outputArity < MAX_VALUES,
+            "Invalid schema"
+        );
+        schema.featureCount = featureCount;
+        schema.outputArity = outputArity;
+    }
+
+    /// @notice Checks the handles against the schema and imports them from one shared input proof.
+    /// @dev The ground truth list holds at most one handle; an empty list leaves the label pending.
+    function importVectors(
+        Schema storage schema,
+        externalEuint32[] calldata encryptedFeatures,
+        externalEuint32[] calldata encryptedOutputs,
+        externalEuint32[] calldata encryptedGroundTruth,
+        bytes calldata inputProof
+    ) external returns (euint32[] memory features, euint32[] memory outputs, euint32 groundTruth) {
+        require(schema.featureCount > 0, "Schema not configured");
+        require(
+            encryptedFeatures.length == schema.featureCount &&
+                encryptedOutputs.length == schema.outputArity &&
+                encryptedGroundTruth.length <= 1,
+            "Schema mismatch"
+        );
+
+        features = importValues(encryptedFeatures, inputProof);
+        outputs = importValues(encryptedOutputs, inputProof);
+        if (encryptedGroundTruth.length == 1) groundTruth = FHE.fromExternal(encryptedGroundTruth[0], inputProof);
+    }
+
+    function importValues(
+        externalEuint32[] calldata encryptedValues,
+        bytes calldata inputProof
+    ) private returns (euint32[] memory values) {
+        values = new euint32[](encryptedValues.length);
+        for (uint256 i = 0; i < encryptedValues.length; i++) {
+            values[i] = FHE.fromExternal(encryptedValues[i], inputProof);
+            FHE.allowThis(values[i]);
+            FHE.allow(values[i], msg.sender);
+        }
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { IDataStore } from "../MetricRegistry.sol";
+
+/// @notice Stand-in for UniversalAdapter in tests, whose source is not part of this repository.
+contract DataStoreMock is IDataStore {
+    mapping(string => bytes) private data;
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    function setData(string calldata key, bytes calldata value) external {
+        data[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return data[key];
+    }
+}
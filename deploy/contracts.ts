@@ -0,0 +1,205 @@
+// deploy/contracts.ts
+import fs from "fs";
+import path from "path";
+import { getCreateAddress, keccak256 } from "ethers";
+import type { ContractFactory, Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DeploymentBlocks, NetworkContracts } from "./networks";
+
+// External libraries AiMonitor_FHE links against
+export const MONITOR_LIBRARIES = [
+  "AlertEvaluation",
+  "ClassificationMetrics",
+  "DriftDetection",
+  "FairnessMetrics",
+  "ModelMetrics",
+  "PredictionSchema",
+];
+
+const ADAPTER_ARTIFACT = path.join(
+  __dirname,
+  "../frontend/web/src/abi/UniversalAdapter.json",
+);
+
+// UniversalAdapter has no source in contracts/, so when hardhat has no artifact for it the
+// compiled copy shipped with the frontend is deployed instead.
+async function adapterFactory(
+  ethers: HardhatRuntimeEnvironment["ethers"],
+  signer: Signer,
+) {
+  try {
+    return await ethers.getContractFactory("UniversalAdapter", signer);
+  } catch (error) {
+    if (!fs.existsSync(ADAPTER_ARTIFACT)) throw error;
+    const artifact = JSON.parse(fs.readFileSync(ADAPTER_ARTIFACT, "utf8"));
+    return ethers.getContractFactory(artifact.abi, artifact.bytecode, signer);
+  }
+}
+
+export interface ManifestEntry {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  // keccak256 of the creation code with linked libraries and constructor arguments, so a contract
+  // whose dependencies moved counts as changed too
+  bytecodeHash: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployer: string;
+  updatedAt: string;
+  contracts: Record<string, ManifestEntry>;
+}
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+const manifestPath = (network: string) =>
+  path.join(DEPLOYMENTS_DIR, `${network}.json`);
+
+export function loadManifest(network: string): DeploymentManifest | null {
+  const file = manifestPath(network);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+}
+
+export function saveManifest(manifest: DeploymentManifest) {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(
+    manifestPath(manifest.network),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+}
+
+export interface DeployOptions {
+  // Contracts whose entry matches the current bytecode hash and still has code on chain are reused
+  manifest?: DeploymentManifest | null;
+  // Only reports what would be deployed; addresses of new contracts are predicted from the nonce
+  dryRun?: boolean;
+  // Called after each contract is deployed, before the next one is sent
+  onDeployed?: (name: string, entry: ManifestEntry) => void;
+  log?: (message: string) => void;
+}
+
+export interface StackDeployment {
+  contracts: NetworkContracts;
+  deploymentBlocks: DeploymentBlocks;
+  entries: Record<string, ManifestEntry>;
+  deployed: string[];
+  skipped: string[];
+}
+
+// Deploys UniversalAdapter, the MetricRegistry writing through it, and AiMonitor_FHE with its libraries.
+export async function deployMonitorStack(
+  ethers: HardhatRuntimeEnvironment["ethers"],
+  signer: Signer,
+  options: DeployOptions = {},
+): Promise<StackDeployment> {
+  const log = options.log ?? console.log;
+  const deployer = await signer.getAddress();
+  let nonce = await signer.getNonce("pending");
+  const result: StackDeployment = {
+    contracts: {
+      contractAddress: "",
+      aiMonitorAddress: "",
+      registryAddress: "",
+    },
+    deploymentBlocks: {},
+    entries: {},
+    deployed: [],
+    skipped: [],
+  };
+
+  const deploy = async (
+    name: string,
+    factory: ContractFactory,
+    args: unknown[] = [],
+  ): Promise<string> => {
+    const { data } = await factory.getDeployTransaction(...args);
+    const bytecodeHash = keccak256(data);
+    const previous = options.manifest?.contracts[name];
+    if (
+      previous &&
+      previous.bytecodeHash === bytecodeHash &&
+      (await ethers.provider.getCode(previous.address)) !== "0x"
+    ) {
+      log(`${name} unchanged at ${previous.address}`);
+      result.entries[name] = previous;
+      result.skipped.push(name);
+      return previous.address;
+    }
+
+    if (options.dryRun) {
+      const address = getCreateAddress({ from: deployer, nonce: nonce++ });
+      log(`${name} would be deployed at ${address}`);
+      result.entries[name] = {
+        address,
+        txHash: "",
+        blockNumber: 0,
+        bytecodeHash,
+      };
+    } else {
+      const contract = await factory.deploy(...args);
+      const receipt = await contract.deploymentTransaction()!.wait();
+      if (!receipt) throw new Error(`${name} deployment was dropped`);
+      const address = await contract.getAddress();
+      log(
+        `${name} deployed at ${address} (tx ${receipt.hash}, block ${receipt.blockNumber})`,
+      );
+      result.entries[name] = {
+        address,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        bytecodeHash,
+      };
+      options.onDeployed?.(name, result.entries[name]);
+    }
+    result.deployed.push(name);
+    return result.entries[name].address;
+  };
+
+  const contractAddress = await deploy(
+    "UniversalAdapter",
+    await adapterFactory(ethers, signer),
+  );
+  // The append-only MetricRegistry replaces the metric_keys array and writes metric payloads to the adapter
+  const registryAddress = await deploy(
+    "MetricRegistry",
+    await ethers.getContractFactory("MetricRegistry", signer),
+    [contractAddress],
+  );
+
+  const libraries: Record<string, string> = {};
+  for (const libraryName of MONITOR_LIBRARIES) {
+    libraries[libraryName] = await deploy(
+      libraryName,
+      await ethers.getContractFactory(libraryName, signer),
+    );
+  }
+  const aiMonitorAddress = await deploy(
+    "AiMonitor_FHE",
+    await ethers.getContractFactory("AiMonitor_FHE", { signer, libraries }),
+    [registryAddress],
+  );
+
+  // Metric submissions are listed by AiMonitor_FHE, so it has to be a registry writer
+  const registry = await ethers.getContractAt(
+    "MetricRegistry",
+    registryAddress,
+    signer,
+  );
+  if (options.dryRun) {
+    log(`AiMonitor_FHE would be made a MetricRegistry writer`);
+  } else if (!(await registry.isWriter(aiMonitorAddress))) {
+    await (await registry.setWriter(aiMonitorAddress, true)).wait();
+    log(`Made AiMonitor_FHE a MetricRegistry writer`);
+  }
+
+  result.contracts = { contractAddress, aiMonitorAddress, registryAddress };
+  result.deploymentBlocks = {
+    contractAddress: result.entries.UniversalAdapter.blockNumber,
+    aiMonitorAddress: result.entries.AiMonitor_FHE.blockNumber,
+    registryAddress: result.entries.MetricRegistry.blockNumber,
+  };
+  return result;
+}
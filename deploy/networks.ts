@@ -0,0 +1,71 @@
+// deploy/networks.ts
+import fs from "fs";
+import path from "path";
+
+// Shared with the frontend, which bundles the same file
+export const NETWORKS_PATH = path.join(
+  __dirname,
+  "../frontend/web/src/networks.json",
+);
+
+// Relayer SDK instance settings; null where the FHEVM is mocked (local hardhat node)
+export interface FhevmEndpoints {
+  relayerUrl: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface NetworkContracts {
+  contractAddress: string;
+  aiMonitorAddress: string;
+  registryAddress: string;
+}
+
+// Block each contract was deployed in, keyed like NetworkContracts. Event scans start there, since
+// finding it from the chain would take historical state that only archive nodes serve.
+export type DeploymentBlocks = Partial<Record<keyof NetworkContracts, number>>;
+
+export interface NetworkEntry {
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+  rpcQuorum?: number;
+  explorerUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  contracts: NetworkContracts;
+  deploymentBlocks?: DeploymentBlocks;
+  deployer?: string;
+  fhevm: FhevmEndpoints | null;
+}
+
+export interface NetworkRegistry {
+  defaultNetwork: string;
+  networks: Record<string, NetworkEntry>;
+}
+
+export function loadNetworks(): NetworkRegistry {
+  return JSON.parse(fs.readFileSync(NETWORKS_PATH, "utf8"));
+}
+
+// Records a deployment under its network, leaving the other networks' addresses untouched
+export function saveNetworkDeployment(
+  key: string,
+  contracts: NetworkContracts,
+  deploymentBlocks: DeploymentBlocks,
+  deployer: string,
+) {
+  const registry = loadNetworks();
+  const network = registry.networks[key];
+  if (!network) throw new Error(`Unknown network "${key}"`);
+  registry.networks[key] = {
+    ...network,
+    contracts,
+    deploymentBlocks,
+    deployer,
+  };
+  fs.writeFileSync(NETWORKS_PATH, JSON.stringify(registry, null, 2) + "\n");
+}
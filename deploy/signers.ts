@@ -0,0 +1,67 @@
+// deploy/signers.ts
+import fs from "fs";
+import { JsonRpcProvider, Wallet } from "ethers";
+import type { Provider, Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Where the deployer key lives. None of them prompt, so every source works in CI.
+//  env      - DEPLOYER_PRIVATE_KEY
+//  keystore - encrypted JSON keystore at DEPLOYER_KEYSTORE, unlocked with DEPLOYER_KEYSTORE_PASSWORD
+//  external - a signing endpoint at DEPLOYER_SIGNER_URL (Frame, a Ledger bridge, a KMS proxy) that
+//             signs for DEPLOYER_ADDRESS; the key never reaches this process
+//  node     - the first account unlocked on the network's own node (hardhat node, dev chains)
+export const SIGNER_SOURCES = ["env", "keystore", "external", "node"] as const;
+export type SignerSource = (typeof SIGNER_SOURCES)[number];
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+export async function resolveSigner(
+  source: string,
+  hre: HardhatRuntimeEnvironment,
+  provider: Provider,
+): Promise<Signer> {
+  switch (source as SignerSource) {
+    case "env":
+      return new Wallet(requireEnv("DEPLOYER_PRIVATE_KEY"), provider);
+    case "keystore": {
+      const keystore = fs.readFileSync(requireEnv("DEPLOYER_KEYSTORE"), "utf8");
+      const wallet = await Wallet.fromEncryptedJson(
+        keystore,
+        requireEnv("DEPLOYER_KEYSTORE_PASSWORD"),
+      );
+      return wallet.connect(provider);
+    }
+    case "external": {
+      const signerProvider = new JsonRpcProvider(
+        requireEnv("DEPLOYER_SIGNER_URL"),
+      );
+      const signer = await signerProvider.getSigner(
+        requireEnv("DEPLOYER_ADDRESS"),
+      );
+      const [signerChain, networkChain] = await Promise.all([
+        signerProvider.getNetwork(),
+        provider.getNetwork(),
+      ]);
+      if (signerChain.chainId !== networkChain.chainId) {
+        throw new Error(
+          `Signer endpoint is on chain ${signerChain.chainId}, expected ${networkChain.chainId}`,
+        );
+      }
+      return signer;
+    }
+    case "node": {
+      const [signer] = await hre.ethers.getSigners();
+      if (!signer)
+        throw new Error(`No unlocked account on network ${hre.network.name}`);
+      return signer;
+    }
+    default:
+      throw new Error(
+        `Unknown signer source "${source}", expected one of ${SIGNER_SOURCES.join(", ")}`,
+      );
+  }
+}
@@ -1,28 +1,171 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  getContractReadOnly,
+  getContractWithSigner,
+  getAiMonitorContractReadOnly,
+  getAiMonitorContractWithSigner,
+  getRegistryContractReadOnly,
+  getTestnetProvider,
+  config,
+  METRIC_COLLECTION
+} from "./contract";
+import { encryptMetric, encryptGroundTruth } from "./fhe";
+import { accuracyCodec, decodeFixed, driftCodec, loadMetricScales, lossCodec, validateFixed } from "./codec";
+import { getAnalysisMode } from "./analysisMode";
+import { ConnectionState, subscribeToDashboard } from "./subscriptions";
+import { syncEventIndex } from "./indexer";
+import { activeNetwork } from "./networks";
+import { getPoolStatus, PoolStatus, refreshProviderPool, subscribePoolStatus } from "./providerPool";
+import { decodeTransactionError, resumePendingTransactions, trackTransaction } from "./transactions";
+import { classifyMetric, loadAlertThresholds, MetricStatus } from "./thresholds";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import ModelSettings from "./components/ModelSettings";
+import DatasetImport from "./components/DatasetImport";
+import PredictionForm from "./components/PredictionForm";
+import TransactionHistory from "./components/TransactionHistory";
+import NetworkSwitcher from "./components/NetworkSwitcher";
+import type { AiMonitor_FHE } from "../../../types";
 import "./App.css";
 
+// A listed submission. Its values only exist in the model's encrypted sums in AiMonitor_FHE.
 interface PerformanceMetric {
   id: string;
   modelName: string;
+  // Only present on legacy records that were stored in cleartext
+  accuracy?: number;
+  loss?: number;
+  status?: MetricStatus;
+  timestamp: number;
+}
+
+interface PredictionRecord {
+  id: number;
+  modelId: string;
+  timestamp: number;
+  score: number;
+  alertLevel: string;
+  needsRetraining: boolean;
+  isRevealed: boolean;
+  alertOnly: boolean;
+  labelPending: boolean;
+}
+
+type UnlabeledPrediction = Pick<PredictionRecord, "id" | "modelId" | "timestamp">;
+
+// Means over every sample submitted before the reveal, decoded with the model's metric scales:
+// accuracy to a percentage, drift score and error rate (the submitted loss) with the loss scale
+interface RevealedModelMetrics {
+  modelId: string;
   accuracy: number;
-  loss: number;
+  driftScore: number;
+  errorRate: number;
+  sampleCount: number;
   timestamp: number;
-  encryptedData: string;
-  status: "normal" | "warning" | "critical";
+  // Revealed means against the model's alert thresholds; individual submissions have no status
+  status: MetricStatus;
+}
+
+// Counts from the last revealed confusion matrix; ratios are in basis points
+interface ClassificationSummary {
+  modelId: string;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  timestamp: number;
+  isRevealed: boolean;
+}
+
+// Gap flags of each segment against reference segment 0
+interface FairnessSummary {
+  modelId: string;
+  thresholds: { parity: number; opportunity: number; accuracy: number };
+  segments: {
+    segment: number;
+    parityGapExceeded: boolean;
+    opportunityGapExceeded: boolean;
+    accuracyGapExceeded: boolean;
+    timestamp: number;
+    isRevealed: boolean;
+  }[];
 }
 
+const MAX_PREDICTIONS = 20;
+const BASIS_POINTS_PER_PERCENT = 100;
+const TREND_POINTS = 6;
+
+const alertLevelClass = (level: string) => {
+  if (level === "Critical") return "critical";
+  if (level === "Warning" || level === "Notice") return "warning";
+  return "normal";
+};
+
+const parseMetric = (id: string, bytes: string): PerformanceMetric | null => {
+  try {
+    const metricData = JSON.parse(ethers.toUtf8String(bytes));
+    return {
+      id,
+      modelName: metricData.modelName,
+      accuracy: metricData.accuracy,
+      loss: metricData.loss,
+      timestamp: metricData.timestamp,
+      status: metricData.status
+    };
+  } catch (e) {
+    console.error(`Error parsing metric data for ${id}:`, e);
+    return null;
+  }
+};
+
+const fetchPrediction = async (contract: AiMonitor_FHE, id: number): Promise<PredictionRecord> => {
+  const [prediction, alert] = await Promise.all([
+    contract.predictions(id),
+    contract.getDecryptedAlert(id)
+  ]);
+  return {
+    id,
+    modelId: prediction.modelId,
+    timestamp: Number(prediction.timestamp),
+    score: Number(alert.score),
+    alertLevel: alert.alert,
+    needsRetraining: alert.retraining,
+    isRevealed: alert.isRevealed,
+    alertOnly: alert.alertOnly,
+    labelPending: prediction.labelPending
+  };
+};
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [metrics, setMetrics] = useState<PerformanceMetric[]>([]);
+  const [predictions, setPredictions] = useState<PredictionRecord[]>([]);
+  const [modelReveals, setModelReveals] = useState<Record<string, RevealedModelMetrics>>({});
+  const [revealHistory, setRevealHistory] = useState<Record<string, RevealedModelMetrics[]>>({});
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [indexedBlocks, setIndexedBlocks] = useState<{ indexed: number; head: number } | null>(null);
+  const [liveState, setLiveState] = useState<ConnectionState>("connecting");
+  const [poolStatus, setPoolStatus] = useState<PoolStatus>(getPoolStatus);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [showDatasetImport, setShowDatasetImport] = useState(false);
+  const [showPredictionForm, setShowPredictionForm] = useState(false);
+  const [showTransactions, setShowTransactions] = useState(false);
+  const [classification, setClassification] = useState<ClassificationSummary[]>([]);
+  const [fairness, setFairness] = useState<FairnessSummary[]>([]);
+  // Fairness rows shown: every segment, or only the comparison of one segment with the reference
+  const [segmentFilter, setSegmentFilter] = useState("");
+  // Every prediction still waiting for ground truth, from the event index; null when there is no index
+  const [unlabeled, setUnlabeled] = useState<UnlabeledPrediction[] | null>(null);
+  const [pendingLabels, setPendingLabels] = useState<Record<number, string>>({});
   const [adding, setAdding] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
@@ -33,6 +176,7 @@ const App: React.FC = () => {
   const [newMetricData, setNewMetricData] = useState({
     modelName: "",
     accuracy: "",
+    drift: "",
     loss: ""
   });
   const [showTutorial, setShowTutorial] = useState(false);
@@ -42,13 +186,58 @@ const App: React.FC = () => {
   const [selectedMetric, setSelectedMetric] = useState<PerformanceMetric | null>(null);
   const [showTeamInfo, setShowTeamInfo] = useState(false);
 
-  // Calculate statistics
-  const normalCount = metrics.filter(m => m.status === "normal").length;
-  const warningCount = metrics.filter(m => m.status === "warning").length;
-  const criticalCount = metrics.filter(m => m.status === "critical").length;
+  // A submission shows the status of its model's latest reveal; legacy cleartext records kept their own
+  const metricStatus = (metric: PerformanceMetric): MetricStatus | undefined =>
+    modelReveals[metric.modelName]?.status ?? metric.status;
+
+  const accuracyTrend = Object.values(revealHistory)
+    .flat()
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-TREND_POINTS);
+
+  // Without an event index only the recent predictions can be checked for missing labels
+  const awaitingLabels = [...(unlabeled ?? predictions.filter(p => p.labelPending))].sort((a, b) => b.id - a.id);
+
+  // Every submission of a model shares its status, so each model is counted once, as of its latest submission
+  const modelStatuses = new Map<string, MetricStatus | undefined>();
+  for (const metric of [...metrics].sort((a, b) => a.timestamp - b.timestamp)) {
+    modelStatuses.set(metric.modelName, metricStatus(metric));
+  }
+  const countModels = (status: MetricStatus) => [...modelStatuses.values()].filter(s => s === status).length;
+  const normalCount = countModels("normal");
+  const warningCount = countModels("warning");
+  const criticalCount = countModels("critical");
+
+  useEffect(() => {
+    Promise.all([loadMetrics(), loadPredictions(), loadClassification(), loadFairness()]).finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => subscribePoolStatus(setPoolStatus), []);
 
+  // Transactions still pending when the page was closed are followed up from the read-only RPC
   useEffect(() => {
-    loadMetrics().finally(() => setLoading(false));
+    getTestnetProvider()
+      .then(resumePendingTransactions)
+      .catch(e => console.warn("Could not resume pending transactions:", e));
+  }, []);
+
+  // Live updates patch the dashboard state; the refresh button stays available as a full reload
+  useEffect(() => {
+    return subscribeToDashboard({
+      onDataStored: (key, value) => {
+        if (!key.startsWith("metric_") || key === "metric_keys") return;
+        const metric = parseMetric(key.slice("metric_".length), value);
+        if (!metric) return;
+        setMetrics(prev => [metric, ...prev.filter(m => m.id !== metric.id)].sort((a, b) => b.timestamp - a.timestamp));
+      },
+      onPredictionRecorded: (predictionId) => refreshPrediction(predictionId),
+      onGroundTruthAttached: (predictionId) => refreshPrediction(predictionId),
+      onAlertDecrypted: (predictionId) => refreshPrediction(predictionId),
+      onMetricsDecrypted: (modelId) => loadModelReveals([modelId]),
+      onConfusionMatrixDecrypted: () => loadClassification(),
+      onFairnessDecrypted: () => loadFairness(),
+      onStateChange: setLiveState
+    });
   }, []);
 
   const onWalletSelect = async (wallet: any) => {
@@ -88,45 +277,35 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("metric_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing metric keys:", e);
-        }
-      }
-      
-      const list: PerformanceMetric[] = [];
-      
-      for (const key of keys) {
-        try {
-          const metricBytes = await contract.getData(`metric_${key}`);
-          if (metricBytes.length > 0) {
-            try {
-              const metricData = JSON.parse(ethers.toUtf8String(metricBytes));
-              list.push({
-                id: key,
-                modelName: metricData.modelName,
-                accuracy: metricData.accuracy,
-                loss: metricData.loss,
-                timestamp: metricData.timestamp,
-                encryptedData: metricData.data,
-                status: metricData.status || "normal"
-              });
-            } catch (e) {
-              console.error(`Error parsing metric data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading metric ${key}:`, e);
+      let list: PerformanceMetric[] = [];
+      try {
+        const snapshot = await syncEventIndex({
+          onProgress: (indexedBlock, headBlock) => setIndexedBlocks({ indexed: indexedBlock, head: headBlock })
+        });
+        for (const indexed of snapshot.metrics) {
+          const metric = parseMetric(indexed.id, indexed.value);
+          if (metric) list.push(metric);
         }
+        setUnlabeled(
+          snapshot.predictions
+            .filter(p => p.labelPending)
+            .map(({ id, modelId, timestamp }) => ({ id, modelId, timestamp }))
+        );
+      } catch (e) {
+        // Without IndexedDB or historical logs, fall back to reading every listed metric
+        console.warn("Event index unavailable, reading the metric list instead:", e);
+        setUnlabeled(null);
+        list = await loadMetricsFromKeys(contract);
+      } finally {
+        setIndexedBlocks(null);
       }
       
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setMetrics(list);
+      // Entries delivered live since the load started are kept rather than replaced by the snapshot
+      setMetrics(prev => {
+        const loaded = new Set(list.map(m => m.id));
+        return [...list, ...prev.filter(m => !loaded.has(m.id))].sort((a, b) => b.timestamp - a.timestamp);
+      });
+      await loadModelReveals([...new Set(list.map(m => m.modelName))]);
     } catch (e) {
       console.error("Error loading metrics:", e);
     } finally {
@@ -135,11 +314,433 @@ const App: React.FC = () => {
     }
   };
 
+  const loadMetricIds = async (contract: ethers.Contract) => {
+    const registry = await getRegistryContractReadOnly();
+    if (registry) {
+      const ids: string[] = [];
+      const total = Number(await registry.count(METRIC_COLLECTION));
+      const pageSize = Number(await registry.MAX_PAGE_SIZE());
+      for (let offset = 0; offset < total; offset += pageSize) {
+        ids.push(...await registry.getItems(METRIC_COLLECTION, offset, pageSize));
+      }
+      return ids;
+    }
+
+    const keysBytes = await contract.getData("metric_keys");
+    let keys: string[] = [];
+    
+    if (keysBytes.length > 0) {
+      try {
+        keys = JSON.parse(ethers.toUtf8String(keysBytes));
+      } catch (e) {
+        console.error("Error parsing metric keys:", e);
+      }
+    }
+    return keys;
+  };
+
+  const loadMetricsFromKeys = async (contract: ethers.Contract) => {
+    const keys = await loadMetricIds(contract);
+    const list: PerformanceMetric[] = [];
+    
+    for (const key of keys) {
+      try {
+        const metricBytes = await contract.getData(`metric_${key}`);
+        if (metricBytes.length > 0) {
+          const metric = parseMetric(key, metricBytes);
+          if (metric) list.push(metric);
+        }
+      } catch (e) {
+        console.error(`Error loading metric ${key}:`, e);
+      }
+    }
+    return list;
+  };
+
+  const loadModelReveals = async (modelIds: string[]) => {
+    try {
+      const contract = await getAiMonitorContractReadOnly();
+      if (!contract) return;
+      
+      const reveals: Record<string, RevealedModelMetrics> = {};
+      const histories: Record<string, RevealedModelMetrics[]> = {};
+      await Promise.all(modelIds.map(async (modelId) => {
+        const count = Number(await contract.getRevealedMetricsCount(modelId));
+        const indexes: number[] = [];
+        for (let i = count - 1; i >= 0 && indexes.length < TREND_POINTS; i--) {
+          indexes.push(i);
+        }
+        
+        const [scales, thresholds] = await Promise.all([loadMetricScales(modelId), loadAlertThresholds(modelId)]);
+        const entries = await Promise.all(indexes.map(async (index): Promise<RevealedModelMetrics> => {
+          const revealed = await contract.getRevealedMetrics(modelId, index);
+          const accuracy = decodeFixed(revealed.accuracy, scales.accuracy);
+          const errorRate = decodeFixed(revealed.errorRate, scales.loss);
+          return {
+            modelId,
+            accuracy,
+            driftScore: decodeFixed(revealed.driftScore, scales.loss),
+            errorRate,
+            sampleCount: Number(revealed.sampleCount),
+            timestamp: Number(revealed.timestamp),
+            status: classifyMetric(accuracy, errorRate, thresholds, scales)
+          };
+        }));
+        
+        if (entries.length > 0) {
+          reveals[modelId] = entries[0];
+          histories[modelId] = entries;
+        }
+      }));
+      
+      // Only the given models are reloaded, so a single model's new reveal keeps the others in place
+      setModelReveals(prev => ({ ...prev, ...reveals }));
+      setRevealHistory(prev => ({ ...prev, ...histories }));
+    } catch (e) {
+      console.error("Error loading revealed model metrics:", e);
+    }
+  };
+
+  const refreshPrediction = async (predictionId: number) => {
+    try {
+      const contract = await getAiMonitorContractReadOnly();
+      if (!contract) return;
+
+      const record = await fetchPrediction(contract, predictionId);
+      setPredictions(prev =>
+        [record, ...prev.filter(p => p.id !== predictionId)]
+          .sort((a, b) => b.id - a.id)
+          .slice(0, MAX_PREDICTIONS)
+      );
+      setUnlabeled(prev => {
+        if (!prev) return prev;
+        const others = prev.filter(p => p.id !== predictionId);
+        return record.labelPending ? [...others, record] : others;
+      });
+    } catch (e) {
+      console.error(`Error loading prediction ${predictionId}:`, e);
+    }
+  };
+
+  const loadPredictions = async () => {
+    try {
+      const contract = await getAiMonitorContractReadOnly();
+      if (!contract) return;
+      
+      const count = Number(await contract.predictionCount());
+      const ids: number[] = [];
+      for (let id = count; id > 0 && ids.length < MAX_PREDICTIONS; id--) {
+        ids.push(id);
+      }
+      
+      const list = await Promise.all(ids.map((id) => fetchPrediction(contract, id)));
+      
+      setPredictions(list);
+    } catch (e) {
+      console.error("Error loading predictions:", e);
+    }
+  };
+
+  const requestAnalysis = async (prediction: PredictionRecord) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    const alertOnly = getAnalysisMode(prediction.modelId) === "alertOnly";
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: alertOnly ? "Requesting alert-only FHE analysis..." : "Requesting FHE performance analysis..."
+    });
+
+    try {
+      const contract = await getAiMonitorContractWithSigner();
+      const tx = alertOnly
+        ? await contract.requestAlertOnlyAnalysis(prediction.id)
+        : await contract.requestPerformanceAnalysis(prediction.id);
+      await trackTransaction(alertOnly ? "Alert-only analysis" : "Performance analysis", tx);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Analysis requested, the alert will appear once decrypted"
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Analysis request failed: " + decodeTransactionError(e)
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const attachLabel = async (predictionId: number) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Encrypting ground truth with FHE..."
+    });
+
+    try {
+      const encrypted = await encryptGroundTruth(
+        config.aiMonitorAddress,
+        account,
+        parseInt(pendingLabels[predictionId])
+      );
+      const contract = await getAiMonitorContractWithSigner();
+      const tx = await contract.attachEncryptedGroundTruth(predictionId, encrypted.groundTruth, encrypted.inputProof);
+      await trackTransaction(`Ground truth for prediction #${predictionId}`, tx);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Ground truth attached"
+      });
+      
+      await Promise.all([loadPredictions(), refreshPrediction(predictionId)]);
+      setPendingLabels(({ [predictionId]: _, ...rest }) => rest);
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Attaching ground truth failed: " + decodeTransactionError(e)
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const loadClassification = async () => {
+    try {
+      const contract = await getAiMonitorContractReadOnly();
+      if (!contract) return;
+      
+      const modelIds = await contract.getMonitoredModels();
+      const flags = await Promise.all(modelIds.map(id => contract.classificationModels(id)));
+      const list = await Promise.all(modelIds.filter((_, i) => flags[i]).map(async (modelId): Promise<ClassificationSummary> => {
+        const matrix = await contract.getConfusionMatrix(modelId);
+        const ratios = matrix.isRevealed
+          ? await contract.getClassificationMetrics(modelId)
+          : { precision: 0n, recall: 0n, f1: 0n, accuracy: 0n };
+        return {
+          modelId,
+          truePositives: Number(matrix.truePositives),
+          falsePositives: Number(matrix.falsePositives),
+          trueNegatives: Number(matrix.trueNegatives),
+          falseNegatives: Number(matrix.falseNegatives),
+          precision: Number(ratios.precision),
+          recall: Number(ratios.recall),
+          f1: Number(ratios.f1),
+          accuracy: Number(ratios.accuracy),
+          timestamp: Number(matrix.timestamp),
+          isRevealed: matrix.isRevealed
+        };
+      }));
+      
+      setClassification(list);
+    } catch (e) {
+      console.error("Error loading classification metrics:", e);
+    }
+  };
+
+  const loadFairness = async () => {
+    try {
+      const contract = await getAiMonitorContractReadOnly();
+      if (!contract) return;
+      
+      const modelIds = await contract.getMonitoredModels();
+      const configs = await Promise.all(modelIds.map(id => contract.getFairnessConfig(id)));
+      const list = await Promise.all(modelIds.map(async (modelId, i): Promise<FairnessSummary | null> => {
+        const segmentCount = Number(configs[i].segmentCount);
+        if (segmentCount === 0) return null;
+        
+        const segments = await Promise.all(
+          Array.from({ length: segmentCount - 1 }, (_, j) => j + 1).map(async (segment) => {
+            const reveal = await contract.getFairnessReveal(modelId, segment);
+            return {
+              segment,
+              parityGapExceeded: reveal.parityGapExceeded,
+              opportunityGapExceeded: reveal.opportunityGapExceeded,
+              accuracyGapExceeded: reveal.accuracyGapExceeded,
+              timestamp: Number(reveal.timestamp),
+              isRevealed: reveal.isRevealed
+            };
+          })
+        );
+        return {
+          modelId,
+          thresholds: {
+            parity: Number(configs[i].parityThreshold),
+            opportunity: Number(configs[i].opportunityThreshold),
+            accuracy: Number(configs[i].accuracyThreshold)
+          },
+          segments
+        };
+      }));
+      
+      setFairness(list.filter((f): f is FairnessSummary => f !== null));
+    } catch (e) {
+      console.error("Error loading fairness metrics:", e);
+    }
+  };
+
+  const requestFairness = async (modelId: string, segment: number) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: `Comparing segment ${segment} with the reference segment under FHE...`
+    });
+
+    try {
+      const contract = await getAiMonitorContractWithSigner();
+      const tx = await contract.requestFairnessEvaluation(modelId, segment);
+      await trackTransaction(`Fairness evaluation for ${modelId}`, tx);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Fairness evaluation requested, flags will update once revealed"
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Fairness evaluation failed: " + decodeTransactionError(e)
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const requestMetricsReveal = async (modelId: string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting decryption of the model-wide means..."
+    });
+
+    try {
+      const contract = await getAiMonitorContractWithSigner();
+      const tx = await contract.requestModelMetricsDecryption(modelId);
+      await trackTransaction(`Metrics decryption for ${modelId}`, tx);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Decryption requested, means will update once revealed"
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption request failed: " + decodeTransactionError(e)
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const requestConfusionMatrix = async (modelId: string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting confusion matrix decryption..."
+    });
+
+    try {
+      const contract = await getAiMonitorContractWithSigner();
+      const tx = await contract.requestConfusionMatrixDecryption(modelId);
+      await trackTransaction(`Confusion matrix decryption for ${modelId}`, tx);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Decryption requested, metrics will update once revealed"
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Decryption request failed: " + decodeTransactionError(e)
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // The metric_keys fallback loses concurrent submissions, so without a registry there is no submitting
+  const submitUnavailable = !config.aiMonitorAddress
+    ? `AiMonitor_FHE is not deployed on ${activeNetwork.name}`
+    : !config.registryAddress
+      ? `MetricRegistry is not deployed on ${activeNetwork.name}, so submissions cannot be listed`
+      : "";
+
+  const refreshAll = async () => {
+    await Promise.all([loadMetrics(), loadPredictions(), loadClassification(), loadFairness()]);
+  };
+
   const submitMetric = async () => {
     if (!provider) { 
       alert("Please connect wallet first"); 
       return; 
     }
+    if (submitUnavailable) {
+      alert(submitUnavailable);
+      return;
+    }
     
     setAdding(true);
     setTransactionStatus({
@@ -149,62 +750,52 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newMetricData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const metricId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      // Determine status based on accuracy and loss
+      const modelId = newMetricData.modelName;
       const accuracy = parseFloat(newMetricData.accuracy);
+      const drift = parseFloat(newMetricData.drift);
       const loss = parseFloat(newMetricData.loss);
-      let status: "normal" | "warning" | "critical" = "normal";
-      
-      if (accuracy < 85 || loss > 0.5) status = "warning";
-      if (accuracy < 70 || loss > 1.0) status = "critical";
 
+      const monitor = await getAiMonitorContractWithSigner();
+      if (!(await monitor.isModelWriter(modelId, account))) {
+        throw new Error(`${modelId} is not registered or this account is not one of its writers`);
+      }
+
+      // Encrypted for AiMonitor_FHE, which adds the values to the model's encrypted running sums
+      const scales = await loadMetricScales(modelId);
+      const encrypted = await encryptMetric(config.aiMonitorAddress, account, accuracy, drift, loss, scales);
+
+      const metricId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+      // Only the submission is listed: no values and no status derived from them leave the encrypted sums
       const metricData = {
-        modelName: newMetricData.modelName,
-        accuracy,
-        loss,
-        data: encryptedData,
+        modelName: modelId,
         timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        status
+        owner: account
       };
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `metric_${metricId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(metricData))
-      );
-      
-      const keysBytes = await contract.getData("metric_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(metricId);
-      
-      await contract.setData(
-        "metric_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      // The monitor lists the submission in MetricRegistry in the same transaction, so values are never orphaned
+      const payload = ethers.toUtf8Bytes(JSON.stringify(metricData));
+      const tx = await monitor.updateModelMetrics(
+        modelId,
+        encrypted.accuracy,
+        encrypted.drift,
+        encrypted.loss,
+        encrypted.inputProof,
+        metricId,
+        payload
       );
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: `Submitting metrics, waiting for ${tx.hash.slice(0, 10)}...`
+      });
+      const receipt = await trackTransaction(`Metric ${metricId}`, tx);
+      const confirmation = `tx ${receipt.hash.slice(0, 10)}... in block ${receipt.blockNumber}`;
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Performance data encrypted and stored securely!"
+        message: `Performance data encrypted and stored securely! (${confirmation})`
       });
       
       await loadMetrics();
@@ -215,13 +806,15 @@ const App: React.FC = () => {
         setNewMetricData({
           modelName: "",
           accuracy: "",
+          drift: "",
           loss: ""
         });
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
+      const reason = decodeTransactionError(e);
+      const errorMessage = e?.code === "ACTION_REJECTED"
+        ? reason
+        : "Submission failed: " + reason;
       
       setTransactionStatus({
         visible: true,
@@ -290,7 +883,7 @@ const App: React.FC = () => {
   // Filter metrics based on search term
   const filteredMetrics = metrics.filter(metric =>
     metric.modelName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    metric.status.toLowerCase().includes(searchTerm.toLowerCase())
+    (metricStatus(metric) ?? "").includes(searchTerm.toLowerCase())
   );
 
   // Pagination logic
@@ -336,21 +929,21 @@ const App: React.FC = () => {
             <div className="grid-line"></div>
           </div>
           <div className="data-line">
-            {metrics.slice(0, 6).map((metric, index) => (
+            {accuracyTrend.map((point, index) => (
               <div 
                 key={index}
                 className="data-point"
                 style={{ 
                   left: `${index * 20}%`,
-                  bottom: `${metric.accuracy}%`
+                  bottom: `${point.accuracy}%`
                 }}
-                title={`Accuracy: ${metric.accuracy}%`}
+                title={`${point.modelId} over ${point.sampleCount} samples: accuracy ${point.accuracy}%, drift ${point.driftScore}, loss ${point.errorRate}`}
               ></div>
             ))}
           </div>
         </div>
         <div className="chart-legend">
-          <span>Accuracy Trend (Last 6 Records)</span>
+          <span>Mean Accuracy Trend (Last {TREND_POINTS} Reveals)</span>
         </div>
       </div>
     );
@@ -381,12 +974,25 @@ const App: React.FC = () => {
             <div className="add-icon"></div>
             Add Metrics
           </button>
+          <button 
+            className="secondary-btn"
+            onClick={() => setShowModelSettings(true)}
+          >
+            Model Settings
+          </button>
+          <button 
+            className="secondary-btn"
+            onClick={() => setShowTransactions(true)}
+          >
+            Transactions
+          </button>
           <button 
             className="secondary-btn"
             onClick={() => setShowTutorial(!showTutorial)}
           >
             {showTutorial ? "Hide Tutorial" : "Show Tutorial"}
           </button>
+          <NetworkSwitcher />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -442,15 +1048,15 @@ const App: React.FC = () => {
               </div>
               <div className="stat-item">
                 <div className="stat-value normal">{normalCount}</div>
-                <div className="stat-label">Normal</div>
+                <div className="stat-label">Normal Models</div>
               </div>
               <div className="stat-item">
                 <div className="stat-value warning">{warningCount}</div>
-                <div className="stat-label">Warning</div>
+                <div className="stat-label">Warning Models</div>
               </div>
               <div className="stat-item">
                 <div className="stat-value critical">{criticalCount}</div>
-                <div className="stat-label">Critical</div>
+                <div className="stat-label">Critical Models</div>
               </div>
             </div>
           </div>
@@ -466,12 +1072,27 @@ const App: React.FC = () => {
               <div className="status-indicator"></div>
               <span>FHE Runtime Active</span>
             </div>
+            <div className="service-status">
+              <div className={`status-indicator ${poolStatus.state}`}></div>
+              <span>
+                {poolStatus.state === "checking"
+                  ? "Checking RPC endpoints..."
+                  : `RPC: ${poolStatus.endpoints.filter(e => e.healthy).length}/${poolStatus.endpoints.length} endpoints healthy` +
+                    (poolStatus.endpoints[0]?.latency != null ? `, fastest ${poolStatus.endpoints[0].latency} ms` : "")}
+              </span>
+            </div>
             <button 
               onClick={checkAvailability}
               className="primary-btn small"
             >
               Check Availability
             </button>
+            <button 
+              onClick={() => refreshProviderPool().catch(e => console.warn("RPC pool health check failed:", e))}
+              className="secondary-btn small"
+            >
+              Recheck RPC
+            </button>
           </div>
         </div>
         
@@ -488,12 +1109,17 @@ const App: React.FC = () => {
                 />
                 <div className="search-icon"></div>
               </div>
+              <span className={`live-status ${liveState}`}>
+                {liveState === "live" ? "Live" : liveState === "reconnecting" ? "Reconnecting..." : "Connecting..."}
+              </span>
               <button 
-                onClick={loadMetrics}
+                onClick={refreshAll}
                 className="refresh-btn secondary-btn"
                 disabled={isRefreshing}
               >
-                {isRefreshing ? "Refreshing..." : "Refresh"}
+                {indexedBlocks
+                  ? `Indexing block ${indexedBlocks.indexed} of ${indexedBlocks.head}...`
+                  : isRefreshing ? "Refreshing..." : "Refresh"}
               </button>
             </div>
           </div>
@@ -514,25 +1140,29 @@ const App: React.FC = () => {
               <>
                 {currentMetrics.map(metric => (
                   <div 
-                    className={`metric-card ${metric.status}`}
+                    className={`metric-card ${metricStatus(metric) ?? ""}`}
                     key={metric.id}
                     onClick={() => setSelectedMetric(metric)}
                   >
                     <div className="metric-header">
                       <h3>{metric.modelName}</h3>
-                      <span className={`status-badge ${metric.status}`}>
-                        {metric.status}
+                      <span className={`status-badge ${metricStatus(metric) ?? ""}`}>
+                        {metricStatus(metric) ?? "Not revealed"}
                       </span>
                     </div>
                     <div className="metric-details">
                       <div className="metric-data">
                         <div className="data-item">
                           <label>Accuracy</label>
-                          <span className="value">{metric.accuracy}%</span>
+                          <span className="value">
+                            {metric.accuracy !== undefined ? `${metric.accuracy}%` : "Encrypted"}
+                          </span>
                         </div>
                         <div className="data-item">
                           <label>Loss</label>
-                          <span className="value">{metric.loss}</span>
+                          <span className="value">
+                            {metric.loss !== undefined ? metric.loss : "Encrypted"}
+                          </span>
                         </div>
                         <div className="data-item">
                           <label>Date</label>
@@ -540,8 +1170,22 @@ const App: React.FC = () => {
                             {new Date(metric.timestamp * 1000).toLocaleDateString()}
                           </span>
                         </div>
+                        {modelReveals[metric.modelName] && (
+                          <div className="data-item">
+                            <label>Last Reveal</label>
+                            <span className="value" title={new Date(modelReveals[metric.modelName].timestamp * 1000).toLocaleString()}>
+                              Acc {modelReveals[metric.modelName].accuracy}% · Drift {modelReveals[metric.modelName].driftScore} · Loss {modelReveals[metric.modelName].errorRate} (n={modelReveals[metric.modelName].sampleCount})
+                            </span>
+                          </div>
+                        )}
                       </div>
                       <div className="metric-actions">
+                        <button 
+                          className="action-btn"
+                          onClick={() => requestMetricsReveal(metric.modelName)}
+                        >
+                          Reveal Means
+                        </button>
                         <button className="action-btn">
                           View Details
                         </button>
@@ -572,6 +1216,242 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <div className="metrics-section">
+          <div className="section-header">
+            <h2>Encrypted Predictions &amp; Alerts</h2>
+            <div className="header-actions">
+              <button 
+                className="secondary-btn"
+                onClick={() => setShowPredictionForm(true)}
+              >
+                Record Prediction
+              </button>
+              <button 
+                className="secondary-btn"
+                onClick={() => setShowDatasetImport(true)}
+              >
+                Import Dataset
+              </button>
+            </div>
+          </div>
+          
+          <div className="metrics-list">
+            {predictions.length === 0 ? (
+              <div className="no-metrics">
+                <div className="no-metrics-icon"></div>
+                <p>No encrypted predictions recorded</p>
+              </div>
+            ) : predictions.map(prediction => (
+              <div 
+                className={`metric-card ${prediction.isRevealed ? alertLevelClass(prediction.alertLevel) : ""}`}
+                key={prediction.id}
+              >
+                <div className="metric-header">
+                  <h3>#{prediction.id} · {prediction.modelId}</h3>
+                  <span className={`status-badge ${prediction.isRevealed ? alertLevelClass(prediction.alertLevel) : ""}`}>
+                    {prediction.isRevealed ? prediction.alertLevel : prediction.labelPending ? "Awaiting Label" : "Pending"}
+                  </span>
+                </div>
+                <div className="metric-details">
+                  <div className="metric-data">
+                    <div className="data-item">
+                      <label>Score</label>
+                      <span className="value">{!prediction.isRevealed ? "Encrypted" : prediction.alertOnly ? "Hidden" : prediction.score}</span>
+                    </div>
+                    <div className="data-item">
+                      <label>Retraining</label>
+                      <span className="value">
+                        {prediction.isRevealed ? (prediction.needsRetraining ? "Required" : "No") : "-"}
+                      </span>
+                    </div>
+                    <div className="data-item">
+                      <label>Date</label>
+                      <span className="value">
+                        {new Date(prediction.timestamp * 1000).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                  {!prediction.isRevealed && !prediction.labelPending && (
+                    <div className="metric-actions">
+                      <button 
+                        className="action-btn"
+                        onClick={() => requestAnalysis(prediction)}
+                      >
+                        Request Analysis
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {classification.length > 0 && (
+          <div className="metrics-section">
+            <div className="section-header">
+              <h2>Classification Metrics</h2>
+            </div>
+            
+            <div className="metrics-list">
+              {classification.map(summary => (
+                <div className="metric-card" key={summary.modelId}>
+                  <div className="metric-header">
+                    <h3>{summary.modelId}</h3>
+                    <span className="status-badge">
+                      {summary.isRevealed ? new Date(summary.timestamp * 1000).toLocaleDateString() : "Encrypted"}
+                    </span>
+                  </div>
+                  <div className="metric-details">
+                    <div className="metric-data">
+                      {([
+                        ["Precision", summary.precision],
+                        ["Recall", summary.recall],
+                        ["F1", summary.f1],
+                        ["Accuracy", summary.accuracy]
+                      ] as const).map(([label, value]) => (
+                        <div className="data-item" key={label}>
+                          <label>{label}</label>
+                          <span className="value">{summary.isRevealed ? `${value / BASIS_POINTS_PER_PERCENT}%` : "-"}</span>
+                        </div>
+                      ))}
+                      {summary.isRevealed && (
+                        <div className="data-item">
+                          <label>TP / FP / TN / FN</label>
+                          <span className="value">
+                            {summary.truePositives} / {summary.falsePositives} / {summary.trueNegatives} / {summary.falseNegatives}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="metric-actions">
+                      <button 
+                        className="action-btn"
+                        onClick={() => requestConfusionMatrix(summary.modelId)}
+                      >
+                        Reveal Latest
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {fairness.length > 0 && (
+          <div className="metrics-section">
+            <div className="section-header">
+              <h2>Fairness</h2>
+              <div className="header-actions">
+                <select
+                  value={segmentFilter}
+                  onChange={(e) => setSegmentFilter(e.target.value)}
+                  className="form-input"
+                >
+                  <option value="">All segments</option>
+                  {Array.from({ length: Math.max(...fairness.map(f => f.segments.length)) }, (_, i) => i + 1).map(segment => (
+                    <option key={segment} value={segment}>Segment {segment}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            
+            <div className="metrics-list">
+              {fairness.map(summary => (
+                <div className="metric-card" key={summary.modelId}>
+                  <div className="metric-header">
+                    <h3>{summary.modelId}</h3>
+                    <span className={`status-badge ${summary.segments.some(s => s.isRevealed && (s.parityGapExceeded || s.opportunityGapExceeded || s.accuracyGapExceeded)) ? "critical" : "normal"}`}>
+                      {summary.segments.length + 1} segments
+                    </span>
+                  </div>
+                  <div className="metric-details">
+                    {summary.segments.filter(s => segmentFilter === "" || s.segment === Number(segmentFilter)).map(s => (
+                      <div className="metric-data" key={s.segment}>
+                        <div className="data-item">
+                          <label>Segment {s.segment} vs 0</label>
+                          <span className="value">
+                            {s.isRevealed ? new Date(s.timestamp * 1000).toLocaleDateString() : "Not evaluated"}
+                          </span>
+                        </div>
+                        {([
+                          ["Demographic parity", s.parityGapExceeded, summary.thresholds.parity],
+                          ["Equal opportunity", s.opportunityGapExceeded, summary.thresholds.opportunity],
+                          ["Accuracy", s.accuracyGapExceeded, summary.thresholds.accuracy]
+                        ] as const).map(([label, exceeded, threshold]) => (
+                          <div className="data-item" key={label}>
+                            <label>{label}</label>
+                            <span className={`value ${s.isRevealed && exceeded ? "critical" : ""}`}>
+                              {!s.isRevealed ? "-" : exceeded
+                                ? `Gap > ${threshold / BASIS_POINTS_PER_PERCENT}%`
+                                : `Within ${threshold / BASIS_POINTS_PER_PERCENT}%`}
+                            </span>
+                          </div>
+                        ))}
+                        <div className="metric-actions">
+                          <button 
+                            className="action-btn"
+                            onClick={() => requestFairness(summary.modelId, s.segment)}
+                          >
+                            Evaluate
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {awaitingLabels.length > 0 && (
+          <div className="metrics-section">
+            <div className="section-header">
+              <h2>Awaiting Labels</h2>
+            </div>
+            
+            <div className="metrics-list">
+              {awaitingLabels.map(prediction => (
+                <div className="metric-card" key={prediction.id}>
+                  <div className="metric-header">
+                    <h3>#{prediction.id} · {prediction.modelId}</h3>
+                    <span className="status-badge">Awaiting Label</span>
+                  </div>
+                  <div className="metric-details">
+                    <div className="metric-data">
+                      <div className="data-item">
+                        <label>Recorded</label>
+                        <span className="value">
+                          {new Date(prediction.timestamp * 1000).toLocaleString()}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="metric-actions">
+                      <input 
+                        type="number"
+                        min="0"
+                        value={pendingLabels[prediction.id] || ""}
+                        onChange={(e) => setPendingLabels({ ...pendingLabels, [prediction.id]: e.target.value })}
+                        placeholder="Ground truth"
+                        className="form-input"
+                      />
+                      <button 
+                        className="action-btn"
+                        onClick={() => attachLabel(prediction.id)}
+                        disabled={!pendingLabels[prediction.id]}
+                      >
+                        Attach Label
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="info-section">
           <button 
             className="toggle-btn secondary-btn"
@@ -610,11 +1490,39 @@ const App: React.FC = () => {
           onSubmit={submitMetric} 
           onClose={() => setShowAddModal(false)} 
           adding={adding}
+          unavailable={submitUnavailable}
           metricData={newMetricData}
           setMetricData={setNewMetricData}
         />
       )}
       
+      {showModelSettings && (
+        <ModelSettings 
+          account={account}
+          onClose={() => setShowModelSettings(false)}
+        />
+      )}
+      
+      {showTransactions && (
+        <TransactionHistory onClose={() => setShowTransactions(false)} />
+      )}
+      
+      {showDatasetImport && (
+        <DatasetImport 
+          account={account}
+          onClose={() => setShowDatasetImport(false)}
+          onImported={loadPredictions}
+        />
+      )}
+      
+      {showPredictionForm && (
+        <PredictionForm 
+          account={account}
+          onClose={() => setShowPredictionForm(false)}
+          onRecorded={loadPredictions}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -673,6 +1581,8 @@ interface ModalAddProps {
   onSubmit: () => void; 
   onClose: () => void; 
   adding: boolean;
+  // Why submitting is impossible on this network, if it is
+  unavailable: string;
   metricData: any;
   setMetricData: (data: any) => void;
 }
@@ -681,6 +1591,7 @@ const ModalAdd: React.FC<ModalAddProps> = ({
   onSubmit, 
   onClose, 
   adding,
+  unavailable,
   metricData,
   setMetricData
 }) => {
@@ -693,10 +1604,18 @@ const ModalAdd: React.FC<ModalAddProps> = ({
   };
 
   const handleSubmit = () => {
-    if (!metricData.modelName || !metricData.accuracy || !metricData.loss) {
+    if (!metricData.modelName || !metricData.accuracy || !metricData.drift || !metricData.loss) {
       alert("Please fill all required fields");
       return;
     }
+    const error =
+      validateFixed(parseFloat(metricData.accuracy), accuracyCodec()) ||
+      validateFixed(parseFloat(metricData.drift), driftCodec()) ||
+      validateFixed(parseFloat(metricData.loss), lossCodec());
+    if (error) {
+      alert(error);
+      return;
+    }
     
     onSubmit();
   };
@@ -711,8 +1630,11 @@ const ModalAdd: React.FC<ModalAddProps> = ({
         
         <div className="modal-body">
           <div className="fhe-notice">
-            <div className="lock-icon"></div> Your performance data will be encrypted with FHE
+            <div className="lock-icon"></div> Your performance data will be encrypted with FHE and only revealed as model-wide means
           </div>
+          {unavailable && (
+            <div className="fhe-notice error">{unavailable}</div>
+          )}
           
           <div className="form-grid">
             <div className="form-group">
@@ -742,6 +1664,20 @@ const ModalAdd: React.FC<ModalAddProps> = ({
               />
             </div>
             
+            <div className="form-group">
+              <label>Drift Score *</label>
+              <input 
+                type="number"
+                name="drift"
+                value={metricData.drift} 
+                onChange={handleChange}
+                placeholder="0.0-1.0" 
+                min="0"
+                step="0.01"
+                className="form-input"
+              />
+            </div>
+            
             <div className="form-group">
               <label>Loss *</label>
               <input 
@@ -768,7 +1704,7 @@ const ModalAdd: React.FC<ModalAddProps> = ({
           </button>
           <button 
             onClick={handleSubmit} 
-            disabled={adding}
+            disabled={adding || !!unavailable}
             className="submit-btn primary-btn"
           >
             {adding ? "Encrypting with FHE..." : "Submit Securely"}
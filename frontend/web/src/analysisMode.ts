@@ -0,0 +1,22 @@
+// analysisMode.ts
+// "alertOnly" compares the score with the thresholds under FHE and reveals only the alert level,
+// "full" decrypts the prediction so the score is revealed as well.
+export type AnalysisMode = "full" | "alertOnly";
+
+const STORAGE_KEY = "aiMonitor.analysisModes";
+
+function loadModes(): Record<string, AnalysisMode> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function getAnalysisMode(modelId: string): AnalysisMode {
+  return loadModes()[modelId] || "full";
+}
+
+export function setAnalysisMode(modelId: string, mode: AnalysisMode) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadModes(), [modelId]: mode }));
+}
@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export const message-user-frontend = () => { return null; };
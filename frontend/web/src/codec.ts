@@ -0,0 +1,91 @@
+// codec.ts
+import { ethers } from "ethers";
+import { getAiMonitorContractReadOnly } from "./contract";
+
+// euint32 only carries integers, so float metrics travel as value * scale.
+export const UINT32_MAX = 0xffffffff;
+
+// Mirrors AiMonitor_FHE.getMetricScales
+export interface MetricScales {
+  accuracy: number;
+  loss: number;
+}
+
+export const DEFAULT_SCALES: MetricScales = {
+  accuracy: 100,
+  loss: 10000
+};
+
+export interface FixedPointCodec {
+  label: string;
+  scale: number;
+  min: number;
+  max: number;
+}
+
+export function accuracyCodec(scales: MetricScales = DEFAULT_SCALES): FixedPointCodec {
+  return { label: "Accuracy", scale: scales.accuracy, min: 0, max: 100 };
+}
+
+export function lossCodec(scales: MetricScales = DEFAULT_SCALES): FixedPointCodec {
+  return { label: "Loss", scale: scales.loss, min: 0, max: UINT32_MAX / scales.loss };
+}
+
+// Drift scores are fractional like losses and are encoded with the model's loss scale
+export function driftCodec(scales: MetricScales = DEFAULT_SCALES): FixedPointCodec {
+  return { label: "Drift score", scale: scales.loss, min: 0, max: UINT32_MAX / scales.loss };
+}
+
+export function integerCodec(label: string): FixedPointCodec {
+  return { label, scale: 1, min: 0, max: UINT32_MAX };
+}
+
+// Returns a message for the form, or null when the value encodes.
+export function validateFixed(value: number, codec: FixedPointCodec): string | null {
+  if (!Number.isFinite(value)) return `${codec.label} must be a number`;
+  if (value < codec.min || value > codec.max) {
+    return `${codec.label} must be between ${codec.min} and ${formatFixed(codec.max * codec.scale, codec.scale)}`;
+  }
+  // Rounding, or a model scale large enough to push the whole range past 32 bits, can still overflow
+  if (Math.round(value * codec.scale) > UINT32_MAX) {
+    return `${codec.label} must be at most ${formatFixed(UINT32_MAX, codec.scale)} at scale ${codec.scale}`;
+  }
+  return null;
+}
+
+// Rounds half up to the nearest step of 1 / scale, so 0.37 at scale 10000 becomes 3700
+// even though 0.37 * 10000 is 3699.9999999999995 in floating point.
+export function encodeFixed(value: number, codec: FixedPointCodec): number {
+  const error = validateFixed(value, codec);
+  if (error) throw new Error(error);
+  return Math.round(value * codec.scale);
+}
+
+export function decodeFixed(raw: number | bigint, scale: number): number {
+  return Number(raw) / scale;
+}
+
+// Shows as many decimals as the scale can carry, without trailing zeros.
+export function formatFixed(raw: number | bigint, scale: number): string {
+  const decimals = Math.max(0, Math.ceil(Math.log10(scale)));
+  return String(parseFloat(decodeFixed(raw, scale).toFixed(decimals)));
+}
+
+export async function loadMetricScales(modelId: string): Promise<MetricScales> {
+  try {
+    const contract = await getAiMonitorContractReadOnly();
+    if (!contract || !modelId) return DEFAULT_SCALES;
+
+    const owner = await contract.getModelOwner(modelId);
+    if (owner === ethers.ZeroAddress) return DEFAULT_SCALES;
+
+    const scales = await contract.getMetricScales(modelId);
+    return {
+      accuracy: Number(scales.accuracyScale),
+      loss: Number(scales.lossScale)
+    };
+  } catch (error) {
+    console.error("Failed to load metric scales:", error);
+    return DEFAULT_SCALES;
+  }
+}
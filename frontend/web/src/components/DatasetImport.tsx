@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { detectFormat, ingestPredictions, MAX_BATCH_SIZE, parseDataset, PredictionRow } from '../ingest';
+import { decodeTransactionError } from '../transactions';
+
+interface DatasetImportProps {
+  account: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const DatasetImport: React.FC<DatasetImportProps> = ({ account, onClose, onImported }) => {
+  const [modelId, setModelId] = useState('');
+  const [rows, setRows] = useState<PredictionRow[]>([]);
+  const [batchSize, setBatchSize] = useState(String(MAX_BATCH_SIZE));
+  const [progress, setProgress] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadFile = async (file: File | undefined) => {
+    setRows([]);
+    setProgress(0);
+    if (!file) return;
+    try {
+      const parsed = parseDataset(await file.text(), detectFormat(file.name));
+      setRows(parsed);
+      setMessage(`${parsed.length} predictions ready to encrypt`);
+    } catch (e: any) {
+      setMessage(`Invalid dataset: ${e.message}`);
+    }
+  };
+
+  const runImport = async () => {
+    if (!account) {
+      setMessage('Please connect wallet first');
+      return;
+    }
+    if (!modelId || rows.length === 0) {
+      setMessage('Select a model and a dataset first');
+      return;
+    }
+    setBusy(true);
+    try {
+      const result = await ingestPredictions(modelId, account, rows, {
+        batchSize: parseInt(batchSize) || MAX_BATCH_SIZE,
+        onProgress: ({ recorded, total, transactions }) => {
+          setProgress(Math.round((recorded / total) * 100));
+          setMessage(`Recorded ${recorded} of ${total} predictions in ${transactions} transactions`);
+        }
+      });
+      setMessage(`Imported ${result.recorded} predictions in ${result.transactions} transactions`);
+      onImported();
+    } catch (e: any) {
+      setMessage(`Import failed: ${decodeTransactionError(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-modal">
+        <div className="modal-header">
+          <h2>Import Predictions</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice">
+            Rows are encrypted in your browser and submitted in batches sharing one input proof.
+            CSV files need input, prediction and groundTruth columns; JSONL files one object per line.
+          </div>
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Model ID</label>
+              <input
+                type="text"
+                value={modelId}
+                onChange={(e) => setModelId(e.target.value)}
+                placeholder="Enter model id..."
+                className="form-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Dataset (CSV or JSONL)</label>
+              <input
+                type="file"
+                accept=".csv,.jsonl,.json"
+                onChange={(e) => loadFile(e.target.files?.[0])}
+                className="form-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Predictions per Transaction</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_BATCH_SIZE}
+                value={batchSize}
+                onChange={(e) => setBatchSize(e.target.value)}
+                className="form-input"
+              />
+            </div>
+            {busy && <progress value={progress} max={100} />}
+            {message && <div className="fhe-notice">{message}</div>}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="secondary-btn">Close</button>
+          <button onClick={runImport} disabled={busy || rows.length === 0} className="primary-btn">
+            {busy ? `Importing ${progress}%...` : 'Encrypt & Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetImport;
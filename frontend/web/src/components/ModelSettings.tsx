@@ -0,0 +1,433 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { getAiMonitorContractReadOnly, getAiMonitorContractWithSigner, normAddr } from '../contract';
+import { AlertThresholds, DEFAULT_THRESHOLDS, loadAlertThresholds } from '../thresholds';
+import { MAX_VECTOR_VALUES } from '../fhe';
+import { DEFAULT_SCALES, MetricScales, decodeFixed, loadMetricScales } from '../codec';
+import { AnalysisMode, getAnalysisMode, setAnalysisMode } from '../analysisMode';
+import { decodeTransactionError, trackTransaction } from '../transactions';
+
+interface ModelSettingsProps {
+  account: string;
+  onClose: () => void;
+}
+
+interface ModelInfo {
+  modelId: string;
+  owner: string;
+  classification: boolean;
+}
+
+type Role = 'writer' | 'viewer';
+
+// Fairness gap thresholds are stored in basis points and edited as percentages
+const FAIRNESS_FIELDS: { key: 'parityThreshold' | 'opportunityThreshold' | 'accuracyThreshold'; label: string }[] = [
+  { key: 'parityThreshold', label: 'Max parity gap (%)' },
+  { key: 'opportunityThreshold', label: 'Max opportunity gap (%)' },
+  { key: 'accuracyThreshold', label: 'Max accuracy gap (%)' }
+];
+
+const SCORE_FIELDS: { key: keyof AlertThresholds; label: string }[] = [
+  { key: 'criticalScore', label: 'Critical below score' },
+  { key: 'warningScore', label: 'Warning below score' },
+  { key: 'noticeScore', label: 'Notice below score' },
+  { key: 'retrainingScore', label: 'Retrain below score' }
+];
+
+const LOSS_FIELDS: { key: keyof AlertThresholds; label: string }[] = [
+  { key: 'lossWarning', label: 'Warning above loss' },
+  { key: 'lossCritical', label: 'Critical above loss' }
+];
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ account, onClose }) => {
+  const [modelId, setModelId] = useState('');
+  const [model, setModel] = useState<ModelInfo | null>(null);
+  const [memberAddress, setMemberAddress] = useState('');
+  const [role, setRole] = useState<Role>('writer');
+  const [newOwner, setNewOwner] = useState('');
+  const [thresholds, setThresholds] = useState<AlertThresholds>(DEFAULT_THRESHOLDS);
+  const [analysisMode, setMode] = useState<AnalysisMode>('full');
+  const [fairness, setFairness] = useState({
+    segmentCount: 2,
+    parityThreshold: 1000,
+    opportunityThreshold: 1000,
+    accuracyThreshold: 1000
+  });
+  const [scales, setScales] = useState<MetricScales>(DEFAULT_SCALES);
+  const [schema, setSchema] = useState({ featureCount: 1, outputArity: 1 });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const isOwner = !!model && !!account && normAddr(model.owner) === normAddr(account);
+  const isRegistered = !!model && model.owner !== ethers.ZeroAddress;
+
+  const loadModel = async (id: string = modelId) => {
+    if (!id) return;
+    const contract = await getAiMonitorContractReadOnly();
+    if (!contract) {
+      setMessage('AiMonitor contract is not available');
+      return;
+    }
+    const [owner, classification] = await Promise.all([
+      contract.getModelOwner(id),
+      contract.classificationModels(id)
+    ]);
+    setModel({ modelId: id, owner, classification });
+    setThresholds(await loadAlertThresholds(id));
+    setScales(await loadMetricScales(id));
+    setMode(getAnalysisMode(id));
+    const modelSchema = await contract.getModelSchema(id);
+    setSchema(
+      modelSchema.featureCount > 0n
+        ? { featureCount: Number(modelSchema.featureCount), outputArity: Number(modelSchema.outputArity) }
+        : { featureCount: 1, outputArity: 1 }
+    );
+    const fairnessConfig = await contract.getFairnessConfig(id);
+    if (fairnessConfig.segmentCount > 0n) {
+      setFairness({
+        segmentCount: Number(fairnessConfig.segmentCount),
+        parityThreshold: Number(fairnessConfig.parityThreshold),
+        opportunityThreshold: Number(fairnessConfig.opportunityThreshold),
+        accuracyThreshold: Number(fairnessConfig.accuracyThreshold)
+      });
+    }
+    setMessage('');
+  };
+
+  // Reads run from the input's blur handler, so RPC failures are reported here instead of escaping
+  const refreshModel = async () => {
+    try {
+      await loadModel();
+    } catch (e: any) {
+      setModel(null);
+      setMessage(`Failed to load model: ${decodeTransactionError(e)}`);
+    }
+  };
+
+  const runTransaction = async (label: string, send: () => Promise<ethers.ContractTransactionResponse>) => {
+    if (!account) {
+      setMessage('Please connect wallet first');
+      return;
+    }
+    setBusy(true);
+    setMessage(`${label}...`);
+    try {
+      const tx = await send();
+      await trackTransaction(label, tx);
+      setMessage(`${label} confirmed`);
+      await loadModel(model?.modelId);
+    } catch (e: any) {
+      setMessage(`${label} failed: ${decodeTransactionError(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const registerModel = () =>
+    runTransaction('Registering model', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.registerModel(modelId);
+    });
+
+  const updateMember = (allowed: boolean) => {
+    if (!ethers.isAddress(memberAddress)) {
+      setMessage('Invalid member address');
+      return;
+    }
+    return runTransaction(allowed ? `Granting ${role} role` : `Revoking ${role} role`, async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return role === 'writer'
+        ? contract.setModelWriter(model!.modelId, memberAddress, allowed)
+        : contract.setModelViewer(model!.modelId, memberAddress, allowed);
+    });
+  };
+
+  const updateThreshold = (key: keyof AlertThresholds, value: string, scale: number = 1) => {
+    setThresholds({ ...thresholds, [key]: Math.round(parseFloat(value || '0') * scale) });
+  };
+
+  const enableClassification = () =>
+    runTransaction('Enabling classification metrics', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.enableClassification(model!.modelId);
+    });
+
+  const saveFairness = () =>
+    runTransaction('Saving fairness configuration', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.configureFairness(model!.modelId, fairness);
+    });
+
+  const saveScales = () =>
+    runTransaction('Saving metric scales', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.setMetricScales(model!.modelId, scales.accuracy, scales.loss);
+    });
+
+  const saveSchema = () => {
+    if (schema.featureCount + schema.outputArity > MAX_VECTOR_VALUES) {
+      setMessage(`Features and outputs may hold at most ${MAX_VECTOR_VALUES} values in total`);
+      return;
+    }
+    return runTransaction('Saving prediction schema', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.configureModelSchema(model!.modelId, schema.featureCount, schema.outputArity);
+    });
+  };
+
+  const updateAnalysisMode = (mode: AnalysisMode) => {
+    setAnalysisMode(model!.modelId, mode);
+    setMode(mode);
+  };
+
+  const saveThresholds = () =>
+    runTransaction('Saving alert thresholds', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.setAlertThresholds(model!.modelId, thresholds);
+    });
+
+  const transferOwnership = () => {
+    if (!ethers.isAddress(newOwner)) {
+      setMessage('Invalid owner address');
+      return;
+    }
+    return runTransaction('Transferring ownership', async () => {
+      const contract = await getAiMonitorContractWithSigner();
+      return contract.transferModelOwnership(model!.modelId, newOwner);
+    });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-modal">
+        <div className="modal-header">
+          <h2>Model Settings</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Model ID</label>
+              <input
+                type="text"
+                value={modelId}
+                onChange={(e) => { setModelId(e.target.value); setModel(null); }}
+                onBlur={refreshModel}
+                placeholder="Enter model id..."
+                className="form-input"
+              />
+            </div>
+
+            {model && !isRegistered && (
+              <button onClick={registerModel} disabled={busy} className="primary-btn">
+                Register Model
+              </button>
+            )}
+
+            {model && isRegistered && (
+              <div className="fhe-notice">
+                Owner: {model.owner.slice(0, 6)}...{model.owner.slice(-4)}
+                {isOwner ? ' (you)' : ''}
+              </div>
+            )}
+
+            {isRegistered && (
+              <>
+                <div className="form-group">
+                  <label>Analysis Mode</label>
+                  <select
+                    value={analysisMode}
+                    onChange={(e) => updateAnalysisMode(e.target.value as AnalysisMode)}
+                    className="form-input"
+                  >
+                    <option value="full">Full reveal (decrypt score)</option>
+                    <option value="alertOnly">Alert-only reveal (score stays encrypted)</option>
+                  </select>
+                </div>
+                {SCORE_FIELDS.map(({ key, label }) => (
+                  <div className="form-group" key={key}>
+                    <label>{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={thresholds[key]}
+                      onChange={(e) => updateThreshold(key, e.target.value)}
+                      disabled={!isOwner}
+                      className="form-input"
+                    />
+                  </div>
+                ))}
+                {LOSS_FIELDS.map(({ key, label }) => (
+                  <div className="form-group" key={key}>
+                    <label>{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={decodeFixed(thresholds[key], scales.loss)}
+                      onChange={(e) => updateThreshold(key, e.target.value, scales.loss)}
+                      disabled={!isOwner}
+                      className="form-input"
+                    />
+                  </div>
+                ))}
+                {isOwner && (
+                  <button onClick={saveThresholds} disabled={busy} className="primary-btn">
+                    Save Thresholds
+                  </button>
+                )}
+                {isOwner && (
+                  <>
+                    <div className="form-group">
+                      <label>Fairness segments (0 is the reference)</label>
+                      <input
+                        type="number"
+                        min="2"
+                        max="4"
+                        value={fairness.segmentCount}
+                        onChange={(e) => setFairness({ ...fairness, segmentCount: parseInt(e.target.value) || 0 })}
+                        className="form-input"
+                      />
+                    </div>
+                    {FAIRNESS_FIELDS.map(({ key, label }) => (
+                      <div className="form-group" key={key}>
+                        <label>{label}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          value={fairness[key] / 100}
+                          onChange={(e) => setFairness({ ...fairness, [key]: Math.round(parseFloat(e.target.value || '0') * 100) })}
+                          className="form-input"
+                        />
+                      </div>
+                    ))}
+                    <button onClick={saveFairness} disabled={busy} className="secondary-btn">
+                      Save Fairness (resets segment counters)
+                    </button>
+                  </>
+                )}
+                {isOwner && (
+                  <>
+                    <div className="form-group">
+                      <label>Accuracy scale (steps per %)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={scales.accuracy}
+                        onChange={(e) => setScales({ ...scales, accuracy: parseInt(e.target.value) || 0 })}
+                        className="form-input"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Loss scale (steps per unit)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={scales.loss}
+                        onChange={(e) => setScales({ ...scales, loss: parseInt(e.target.value) || 0 })}
+                        className="form-input"
+                      />
+                    </div>
+                    <button onClick={saveScales} disabled={busy} className="secondary-btn">
+                      Save Metric Scales (applies to new submissions)
+                    </button>
+                  </>
+                )}
+                {isOwner && (
+                  <>
+                    <div className="form-group">
+                      <label>Features per prediction</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={schema.featureCount}
+                        onChange={(e) => setSchema({ ...schema, featureCount: parseInt(e.target.value) || 0 })}
+                        className="form-input"
+                      />
+                    </div>
+                    <div className="form-group">
+                      <label>Outputs per prediction</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={schema.outputArity}
+                        onChange={(e) => setSchema({ ...schema, outputArity: parseInt(e.target.value) || 0 })}
+                        className="form-input"
+                      />
+                    </div>
+                    <button onClick={saveSchema} disabled={busy} className="secondary-btn">
+                      Save Prediction Schema
+                    </button>
+                  </>
+                )}
+                {model!.classification ? (
+                  <div className="fhe-notice">Binary classifier: labelled predictions update an encrypted confusion matrix</div>
+                ) : isOwner && (
+                  <button onClick={enableClassification} disabled={busy} className="secondary-btn">
+                    Enable Classification Metrics
+                  </button>
+                )}
+              </>
+            )}
+
+            {isOwner && (
+              <>
+                <div className="form-group">
+                  <label>Member Address</label>
+                  <input
+                    type="text"
+                    value={memberAddress}
+                    onChange={(e) => setMemberAddress(e.target.value)}
+                    placeholder="0x..."
+                    className="form-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Role</label>
+                  <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as Role)}
+                    className="form-input"
+                  >
+                    <option value="writer">Writer (record predictions and metrics)</option>
+                    <option value="viewer">Viewer (request decryption)</option>
+                  </select>
+                </div>
+                <div className="modal-footer">
+                  <button onClick={() => updateMember(false)} disabled={busy} className="secondary-btn">
+                    Revoke
+                  </button>
+                  <button onClick={() => updateMember(true)} disabled={busy} className="primary-btn">
+                    Grant
+                  </button>
+                </div>
+
+                <div className="form-group">
+                  <label>Transfer Ownership</label>
+                  <input
+                    type="text"
+                    value={newOwner}
+                    onChange={(e) => setNewOwner(e.target.value)}
+                    placeholder="New owner 0x..."
+                    className="form-input"
+                  />
+                </div>
+                <button onClick={transferOwnership} disabled={busy} className="secondary-btn">
+                  Transfer
+                </button>
+              </>
+            )}
+
+            {message && <div className="fhe-notice">{message}</div>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { activeNetwork, NETWORKS, selectNetwork } from '../networks';
+
+const NetworkSwitcher: React.FC = () => {
+  const [switching, setSwitching] = useState(false);
+
+  const onChange = async (key: string) => {
+    setSwitching(true);
+    try {
+      await selectNetwork(key);
+    } catch (e: any) {
+      alert(`Could not switch network: ${e.message || 'Unknown error'}`);
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <select
+      className="network-select"
+      value={activeNetwork.key}
+      disabled={switching}
+      onChange={(e) => onChange(e.target.value)}
+      title="Network"
+    >
+      {NETWORKS.map(network => (
+        <option key={network.key} value={network.key}>
+          {network.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default NetworkSwitcher;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { config, getAiMonitorContractReadOnly, getAiMonitorContractWithSigner } from '../contract';
+import { encryptPredictionVector } from '../fhe';
+import { decodeTransactionError, trackTransaction } from '../transactions';
+
+interface PredictionFormProps {
+  account: string;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+interface Schema {
+  featureCount: number;
+  outputArity: number;
+  // Zero when fairness monitoring is off and predictions carry no segment
+  segmentCount: number;
+}
+
+// Values are entered comma-separated; an empty field means no value rather than zero
+const parseValues = (text: string) =>
+  text.trim() === '' ? [] : text.split(',').map((value) => Number(value.trim()));
+
+const PredictionForm: React.FC<PredictionFormProps> = ({ account, onClose, onRecorded }) => {
+  const [modelId, setModelId] = useState('');
+  const [schema, setSchema] = useState<Schema | null>(null);
+  const [features, setFeatures] = useState('');
+  const [outputs, setOutputs] = useState('');
+  const [groundTruth, setGroundTruth] = useState('');
+  const [segment, setSegment] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // Called on blur; a failed read is shown in the form and leaves recording disabled
+  const loadSchema = async () => {
+    setSchema(null);
+    if (!modelId) return;
+    try {
+      const contract = await getAiMonitorContractReadOnly();
+      if (!contract) {
+        setMessage('AiMonitor contract is not available');
+        return;
+      }
+      const [modelSchema, fairnessConfig] = await Promise.all([
+        contract.getModelSchema(modelId),
+        contract.getFairnessConfig(modelId)
+      ]);
+      if (modelSchema.featureCount === 0n) {
+        setMessage('This model has no prediction schema yet; configure one in Model Settings');
+        return;
+      }
+      setSchema({
+        featureCount: Number(modelSchema.featureCount),
+        outputArity: Number(modelSchema.outputArity),
+        segmentCount: Number(fairnessConfig.segmentCount)
+      });
+      setMessage('');
+    } catch (e: any) {
+      setMessage(`Failed to load model: ${decodeTransactionError(e)}`);
+    }
+  };
+
+  const validate = (): string | null => {
+    if (!schema) return 'Enter a model with a prediction schema first';
+    const featureValues = parseValues(features);
+    const outputValues = parseValues(outputs);
+    if (featureValues.length !== schema.featureCount) return `The model expects ${schema.featureCount} feature(s)`;
+    if (outputValues.length !== schema.outputArity) return `The model expects ${schema.outputArity} output(s)`;
+    if ([...featureValues, ...outputValues].some((value) => !Number.isInteger(value) || value < 0)) {
+      return 'Features and outputs must be non-negative integers';
+    }
+    if (groundTruth !== '' && !(Number.isInteger(Number(groundTruth)) && Number(groundTruth) >= 0)) {
+      return 'Ground truth must be a non-negative integer';
+    }
+    return null;
+  };
+
+  const record = async () => {
+    if (!account) {
+      setMessage('Please connect wallet first');
+      return;
+    }
+    const error = validate();
+    if (error) {
+      setMessage(error);
+      return;
+    }
+    setBusy(true);
+    try {
+      setMessage('Encrypting prediction with FHE...');
+      const encrypted = await encryptPredictionVector(
+        config.aiMonitorAddress,
+        account,
+        parseValues(features),
+        parseValues(outputs),
+        groundTruth === '' ? undefined : Number(groundTruth),
+        segment === '' ? undefined : Number(segment)
+      );
+      // The segment rides in the same transaction, so a failure never leaves a recorded prediction behind
+      const contract = await getAiMonitorContractWithSigner();
+      const tx = await contract.recordEncryptedPredictionVector(
+        modelId,
+        encrypted.features,
+        encrypted.outputs,
+        encrypted.groundTruth,
+        encrypted.segment,
+        encrypted.inputProof
+      );
+      await trackTransaction(`Prediction for ${modelId}`, tx);
+
+      setMessage(groundTruth === '' ? 'Prediction recorded, awaiting its label' : 'Prediction recorded');
+      setFeatures('');
+      setOutputs('');
+      setGroundTruth('');
+      setSegment('');
+      onRecorded();
+    } catch (e: any) {
+      setMessage(`Recording failed: ${decodeTransactionError(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-modal">
+        <div className="modal-header">
+          <h2>Record Prediction</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice">
+            Features, outputs, the label and the segment are encrypted together in your browser under one input proof.
+            Leave the ground truth empty to attach it later.
+          </div>
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Model ID</label>
+              <input
+                type="text"
+                value={modelId}
+                onChange={(e) => setModelId(e.target.value)}
+                onBlur={loadSchema}
+                placeholder="Enter model id..."
+                className="form-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Features{schema ? ` (${schema.featureCount}, comma-separated)` : ''}</label>
+              <input
+                type="text"
+                value={features}
+                onChange={(e) => setFeatures(e.target.value)}
+                placeholder="e.g. 12, 40, 7"
+                className="form-input"
+                disabled={!schema}
+              />
+            </div>
+            <div className="form-group">
+              <label>Outputs{schema ? ` (${schema.outputArity}, comma-separated)` : ''}</label>
+              <input
+                type="text"
+                value={outputs}
+                onChange={(e) => setOutputs(e.target.value)}
+                placeholder="e.g. 80, 20"
+                className="form-input"
+                disabled={!schema}
+              />
+            </div>
+            <div className="form-group">
+              <label>Ground Truth (optional)</label>
+              <input
+                type="number"
+                min="0"
+                value={groundTruth}
+                onChange={(e) => setGroundTruth(e.target.value)}
+                className="form-input"
+                disabled={!schema}
+              />
+            </div>
+            {!!schema?.segmentCount && (
+              <div className="form-group">
+                <label>Segment (encrypted, for fairness)</label>
+                <select
+                  value={segment}
+                  onChange={(e) => setSegment(e.target.value)}
+                  className="form-input"
+                >
+                  <option value="">Not assigned</option>
+                  {Array.from({ length: schema.segmentCount }, (_, i) => (
+                    <option key={i} value={i}>Segment {i}{i === 0 ? ' (reference)' : ''}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {message && <div className="fhe-notice">{message}</div>}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="secondary-btn">Close</button>
+          <button onClick={record} disabled={busy || !schema} className="primary-btn">
+            {busy ? 'Recording...' : 'Encrypt & Record'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PredictionForm;
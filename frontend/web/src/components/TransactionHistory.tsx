@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import {
+  clearTransactionHistory,
+  explorerTxUrl,
+  getTransactionHistory,
+  REQUIRED_CONFIRMATIONS,
+  subscribeTransactions,
+  TrackedTransaction,
+  TransactionState
+} from '../transactions';
+
+interface TransactionHistoryProps {
+  onClose: () => void;
+}
+
+// Reuses the metric status colours: pending is amber, confirmed green, failed red
+const STATE_CLASS: Record<TransactionState, string> = {
+  pending: 'warning',
+  confirmed: 'normal',
+  failed: 'critical'
+};
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ onClose }) => {
+  const [history, setHistory] = useState<TrackedTransaction[]>(getTransactionHistory);
+
+  useEffect(() => subscribeTransactions(setHistory), []);
+
+  const stateLabel = (tx: TrackedTransaction) => {
+    if (tx.state !== 'confirmed') return tx.state;
+    return tx.confirmations >= REQUIRED_CONFIRMATIONS
+      ? 'confirmed'
+      : `${tx.confirmations}/${REQUIRED_CONFIRMATIONS} confirmations`;
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-modal">
+        <div className="modal-header">
+          <h2>Transactions</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {history.length === 0 && <div className="fhe-notice">No transactions sent from this browser yet</div>}
+          <div className="metrics-list">
+            {history.map(tx => {
+              const url = explorerTxUrl(tx.hash);
+              return (
+                <div key={tx.hash} className={`metric-card ${STATE_CLASS[tx.state]}`}>
+                  <div className="metric-header">
+                    <h3>{tx.label}</h3>
+                    <span className={`status-badge ${STATE_CLASS[tx.state]}`}>{stateLabel(tx)}</span>
+                  </div>
+                  <div className="form-grid">
+                    <div>
+                      Hash:{' '}
+                      {url
+                        ? <a href={url} target="_blank" rel="noreferrer">{tx.hash.slice(0, 10)}...{tx.hash.slice(-8)}</a>
+                        : `${tx.hash.slice(0, 10)}...${tx.hash.slice(-8)}`}
+                    </div>
+                    <div>Nonce: {tx.nonce}</div>
+                    {tx.blockNumber !== undefined && <div>Block: {tx.blockNumber}</div>}
+                    {tx.gasUsed && <div>Gas used: {Number(tx.gasUsed).toLocaleString()}</div>}
+                    <div>Sent: {new Date(tx.submittedAt * 1000).toLocaleString()}</div>
+                    {tx.error && <div className="fhe-notice">{tx.error}</div>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={clearTransactionHistory} disabled={history.length === 0} className="secondary-btn">
+            Clear Finished
+          </button>
+          <button onClick={onClose} className="primary-btn">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionHistory;
@@ -1,10 +1,27 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import aiMonitorAbiJson from "./abi/AiMonitor_FHE.json";
+import registryAbiJson from "./abi/MetricRegistry.json";
+import { activeNetwork } from "./networks";
+import { getPoolProvider } from "./providerPool";
+import type { AiMonitor_FHE, MetricRegistry } from "../../../types";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const AI_MONITOR_ABI = (aiMonitorAbiJson as any).abi || aiMonitorAbiJson;
+export const REGISTRY_ABI = (registryAbiJson as any).abi || registryAbiJson;
+// The selected network's registry entry, flattened into the shape the dashboard reads
+export const config = {
+  network: activeNetwork.rpcUrls[0],
+  chainId: activeNetwork.chainId,
+  ...activeNetwork.contracts,
+  deploymentBlocks: activeNetwork.deploymentBlocks ?? {},
+  explorerUrl: activeNetwork.explorerUrl,
+  deployer: activeNetwork.deployer ?? ""
+};
+
+// MetricRegistry collection that replaces the metric_keys JSON array
+export const METRIC_COLLECTION = "metrics";
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,36 +35,8 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
+// Read-only provider backed by the health-ranked RPC pool, see providerPool.ts
+export const getTestnetProvider = () => getPoolProvider();
 
 export async function getContractReadOnly() {
   try {
@@ -81,6 +70,57 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getAiMonitorContractReadOnly(): Promise<AiMonitor_FHE | null> {
+  if (!config.aiMonitorAddress) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    const contract = new ethers.Contract(config.aiMonitorAddress, AI_MONITOR_ABI, provider);
+    
+    const code = await retry(() => provider.getCode(config.aiMonitorAddress));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return contract as unknown as AiMonitor_FHE;
+  } catch (error) {
+    console.error("Failed to create read-only AiMonitor contract:", error);
+    return null;
+  }
+}
+
+export async function getAiMonitorContractWithSigner(): Promise<AiMonitor_FHE> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.aiMonitorAddress) {
+    throw new Error("AiMonitor contract address is not configured");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    const contract = new ethers.Contract(config.aiMonitorAddress, AI_MONITOR_ABI, signer);
+    return contract as unknown as AiMonitor_FHE;
+  } catch (error) {
+    console.error("Failed to create AiMonitor contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function getRegistryContractReadOnly(): Promise<MetricRegistry | null> {
+  if (!config.registryAddress) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    return new ethers.Contract(config.registryAddress, REGISTRY_ABI, provider) as unknown as MetricRegistry;
+  } catch (error) {
+    console.error("Failed to create read-only MetricRegistry contract:", error);
+    return null;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { DEFAULT_SCALES, MetricScales, accuracyCodec, driftCodec, encodeFixed, integerCodec, lossCodec } from "./codec";
+import { activeNetwork } from "./networks";
+import { createMockFhevmInstance, isLocalMode } from "./localMode";
+
+// One input proof covers at most 2048 bits; the ground truth takes one of the 64 euint32 slots.
+export const MAX_VECTOR_VALUES = 63;
+const MAX_INPUT_BITS = 2048;
+
+// Handles in the order AiMonitor_FHE.updateModelMetrics takes them; the loss feeds its error-rate sum
+export interface EncryptedMetric {
+  accuracy: string;
+  drift: string;
+  loss: string;
+  inputProof: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (isLocalMode) return createMockFhevmInstance();
+      if (!activeNetwork.fhevm) throw new Error(`No FHEVM relayer is configured for ${activeNetwork.name}`);
+      await initSDK();
+      return createInstance({ ...activeNetwork.fhevm, chainId: activeNetwork.chainId, network: (window as any).ethereum });
+    })();
+    // Allow a later call to retry if the relayer or WASM init failed.
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
+
+const toUint32 = (value: number, label: string) => encodeFixed(value, integerCodec(label));
+
+export async function encryptMetric(
+  contractAddress: string,
+  userAddress: string,
+  accuracy: number,
+  drift: number,
+  loss: number,
+  scales: MetricScales = DEFAULT_SCALES
+): Promise<EncryptedMetric> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(encodeFixed(accuracy, accuracyCodec(scales)));
+  input.add32(encodeFixed(drift, driftCodec(scales)));
+  input.add32(encodeFixed(loss, lossCodec(scales)));
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    accuracy: ethers.hexlify(handles[0]),
+    drift: ethers.hexlify(handles[1]),
+    loss: ethers.hexlify(handles[2]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedPredictionBatch {
+  inputs: string[];
+  predictions: string[];
+  groundTruths: string[];
+  inputProof: string;
+}
+
+// Handles are laid out row by row (input, prediction, ground truth) and split back into columns.
+export async function encryptPredictionBatch(
+  contractAddress: string,
+  userAddress: string,
+  rows: { input: number; prediction: number; groundTruth: number }[]
+): Promise<EncryptedPredictionBatch> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const row of rows) {
+    input.add32(toUint32(row.input, "Input"));
+    input.add32(toUint32(row.prediction, "Prediction"));
+    input.add32(toUint32(row.groundTruth, "Ground truth"));
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  const column = (offset: number) => rows.map((_, i) => ethers.hexlify(handles[i * 3 + offset]));
+  return {
+    inputs: column(0),
+    predictions: column(1),
+    groundTruths: column(2),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export async function encryptGroundTruth(
+  contractAddress: string,
+  userAddress: string,
+  groundTruth: number
+): Promise<{ groundTruth: string; inputProof: string }> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(toUint32(groundTruth, "Ground truth"));
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    groundTruth: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedPredictionVector {
+  features: string[];
+  outputs: string[];
+  groundTruth: string[];
+  segment: string[];
+  inputProof: string;
+}
+
+// Features, outputs, the optional label and the optional segment share one encrypted input, in that order.
+export async function encryptPredictionVector(
+  contractAddress: string,
+  userAddress: string,
+  features: number[],
+  outputs: number[],
+  groundTruth?: number,
+  segment?: number
+): Promise<EncryptedPredictionVector> {
+  if (features.length === 0 || outputs.length === 0) {
+    throw new Error("A prediction needs at least one feature and one output");
+  }
+  if (features.length + outputs.length > MAX_VECTOR_VALUES) {
+    throw new Error(`A prediction may hold at most ${MAX_VECTOR_VALUES} features and outputs`);
+  }
+  if (segment !== undefined && (!Number.isInteger(segment) || segment < 0 || segment > 255)) {
+    throw new Error("Segment must be an integer between 0 and 255");
+  }
+  const valueCount = features.length + outputs.length + (groundTruth === undefined ? 0 : 1);
+  if (segment !== undefined && valueCount * 32 + 8 > MAX_INPUT_BITS) {
+    throw new Error("This prediction fills the encrypted input, so it cannot carry a segment");
+  }
+
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  features.forEach((value, i) => input.add32(toUint32(value, `Feature ${i + 1}`)));
+  outputs.forEach((value, i) => input.add32(toUint32(value, `Output ${i + 1}`)));
+  if (groundTruth !== undefined) input.add32(toUint32(groundTruth, "Ground truth"));
+  if (segment !== undefined) input.add8(segment);
+
+  const { handles, inputProof } = await input.encrypt();
+  const hex = handles.map((handle) => ethers.hexlify(handle));
+  const outputStart = features.length;
+  const labelStart = outputStart + outputs.length;
+  const segmentStart = valueCount;
+  return {
+    features: hex.slice(0, outputStart),
+    outputs: hex.slice(outputStart, labelStart),
+    groundTruth: hex.slice(labelStart, segmentStart),
+    segment: hex.slice(segmentStart),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-interface dist-service-frontendProps { data: string }
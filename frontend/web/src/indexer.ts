@@ -0,0 +1,248 @@
+// indexer.ts
+import { ethers } from "ethers";
+import { ABI, AI_MONITOR_ABI, config, getTestnetProvider } from "./contract";
+import { isLocalMode } from "./localMode";
+import type { AiMonitor_FHE, UniversalAdapter } from "../../../types";
+
+export interface IndexedLog {
+  scope: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  event: "DataStored" | "PredictionRecorded" | "GroundTruthAttached";
+  args: Record<string, string>;
+}
+
+// Latest value written under each metric_<id> key, including keys later dropped from metric_keys
+export interface IndexedMetric {
+  id: string;
+  value: string;
+  blockNumber: number;
+}
+
+export interface IndexedPrediction {
+  id: number;
+  modelId: string;
+  modelHash: string;
+  timestamp: number;
+  blockNumber: number;
+  // Recorded without ground truth and no GroundTruthAttached since
+  labelPending: boolean;
+}
+
+// Covers the chain up to its head; logs after lastBlock are unconfirmed and were not stored
+export interface IndexSnapshot {
+  metrics: IndexedMetric[];
+  predictions: IndexedPrediction[];
+  lastBlock: number;
+}
+
+export interface IndexerOptions {
+  chunkSize?: number;
+  onProgress?: (indexedBlock: number, headBlock: number) => void;
+}
+
+const DB_NAME = "aiMonitor.eventIndex";
+// Version 2 added GroundTruthAttached and labelPending, which older indexes lack
+const DB_VERSION = 2;
+const LOG_STORE = "logs";
+const CURSOR_STORE = "cursors";
+export const DEFAULT_CHUNK_SIZE = 5000;
+const MIN_CHUNK_SIZE = 100;
+// Blocks this close to the head may still reorg, so they are read on every sync but not stored. A local
+// automining node never reorgs, so everything it has mined is stored straight away.
+const CONFIRMATIONS = isLocalMode ? 0 : 5;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openIndexDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      for (const store of [LOG_STORE, CURSOR_STORE]) {
+        if (open.result.objectStoreNames.contains(store)) open.result.deleteObjectStore(store);
+      }
+      open.result.createObjectStore(LOG_STORE, { keyPath: ["scope", "blockNumber", "logIndex"] });
+      open.result.createObjectStore(CURSOR_STORE, { keyPath: "scope" });
+    };
+    dbPromise = request(open);
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+const indexScope = (chainId: bigint, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+async function readCursor(db: IDBDatabase, scope: string): Promise<number | null> {
+  const cursor = await request(db.transaction(CURSOR_STORE).objectStore(CURSOR_STORE).get(scope));
+  return cursor ? cursor.lastBlock : null;
+}
+
+async function readLogs(db: IDBDatabase, scope: string): Promise<IndexedLog[]> {
+  const range = IDBKeyRange.bound([scope, 0, 0], [scope, Infinity, Infinity]);
+  return request(db.transaction(LOG_STORE).objectStore(LOG_STORE).getAll(range));
+}
+
+// Logs and the cursor are written together, so an interrupted backfill resumes after the last stored chunk
+async function storeChunk(db: IDBDatabase, scope: string, logs: IndexedLog[], lastBlock: number) {
+  const tx = db.transaction([LOG_STORE, CURSOR_STORE], "readwrite");
+  for (const log of logs) tx.objectStore(LOG_STORE).put(log);
+  tx.objectStore(CURSOR_STORE).put({ scope, lastBlock });
+  await completion(tx);
+}
+
+async function backfill(
+  db: IDBDatabase,
+  scope: string,
+  fromBlock: number,
+  toBlock: number,
+  fetchLogs: (from: number, to: number) => Promise<IndexedLog[]>,
+  options: IndexerOptions
+) {
+  let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  let from = fromBlock;
+  while (from <= toBlock) {
+    const to = Math.min(from + chunkSize - 1, toBlock);
+    let logs: IndexedLog[];
+    try {
+      logs = await fetchLogs(from, to);
+    } catch (error) {
+      // Providers cap eth_getLogs by block range or result size; retry the range in halves
+      if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+      chunkSize = Math.max(Math.floor(chunkSize / 2), MIN_CHUNK_SIZE);
+      continue;
+    }
+    await storeChunk(db, scope, logs, to);
+    options.onProgress?.(to, toBlock);
+    from = to + 1;
+  }
+}
+
+const toIndexedLog = (
+  scope: string,
+  event: IndexedLog["event"],
+  log: ethers.EventLog | ethers.Log,
+  args: Record<string, string>
+): IndexedLog => ({
+  scope,
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  transactionHash: log.transactionHash,
+  event,
+  args
+});
+
+// A first sync starts at the deployment block the deploy task recorded in networks.json. Without one it
+// scans from genesis, which is slow but, unlike searching historical code, works on any RPC.
+async function indexContract(
+  db: IDBDatabase,
+  scope: string,
+  deploymentBlock: number | undefined,
+  head: number,
+  fetchLogs: (from: number, to: number) => Promise<IndexedLog[]>,
+  options: IndexerOptions
+) {
+  const lastBlock = await readCursor(db, scope);
+  const fromBlock = lastBlock !== null ? lastBlock + 1 : deploymentBlock ?? 0;
+  await backfill(db, scope, fromBlock, head, fetchLogs, options);
+}
+
+// Brings the local index of DataStored, PredictionRecorded and GroundTruthAttached events up to date and returns its contents.
+export async function syncEventIndex(options: IndexerOptions = {}): Promise<IndexSnapshot> {
+  const db = await openIndexDb();
+  const provider = await getTestnetProvider();
+  const { chainId } = await provider.getNetwork();
+  const chainHead = await provider.getBlockNumber();
+  const head = Math.max(chainHead - CONFIRMATIONS, 0);
+  const withUnconfirmed = async (
+    scope: string,
+    fetchLogs: (from: number, to: number) => Promise<IndexedLog[]>
+  ) => [...(await readLogs(db, scope)), ...(chainHead > head ? await fetchLogs(head + 1, chainHead) : [])];
+
+  const adapter = new ethers.Contract(config.contractAddress, ABI, provider) as unknown as UniversalAdapter;
+  const adapterScope = indexScope(chainId, config.contractAddress);
+  const fetchDataStored = async (from: number, to: number) => {
+    const logs = await adapter.queryFilter(adapter.filters.DataStored, from, to);
+    return logs.map(log =>
+      toIndexedLog(adapterScope, "DataStored", log, { sender: log.args.sender, key: log.args.key, value: log.args.value })
+    );
+  };
+  await indexContract(db, adapterScope, config.deploymentBlocks.contractAddress, head, fetchDataStored, options);
+
+  const latest = new Map<string, IndexedMetric>();
+  for (const log of await withUnconfirmed(adapterScope, fetchDataStored)) {
+    const key = log.args.key;
+    if (!key.startsWith("metric_") || key === "metric_keys") continue;
+    latest.set(key, { id: key.slice("metric_".length), value: log.args.value, blockNumber: log.blockNumber });
+  }
+
+  const predictions: IndexedPrediction[] = [];
+  if (config.aiMonitorAddress) {
+    const monitor = new ethers.Contract(config.aiMonitorAddress, AI_MONITOR_ABI, provider) as unknown as AiMonitor_FHE;
+    const monitorScope = indexScope(chainId, config.aiMonitorAddress);
+    const fetchPredictionLogs = async (from: number, to: number) => {
+      const [recorded, attached] = await Promise.all([
+        monitor.queryFilter(monitor.filters.PredictionRecorded, from, to),
+        monitor.queryFilter(monitor.filters.GroundTruthAttached, from, to)
+      ]);
+      return [
+        ...recorded.map(log =>
+          toIndexedLog(monitorScope, "PredictionRecorded", log, {
+            id: log.args.id.toString(),
+            modelHash: log.args.modelHash,
+            modelId: log.args.modelId,
+            timestamp: log.args.timestamp.toString(),
+            labelPending: String(log.args.labelPending)
+          })
+        ),
+        ...attached.map(log =>
+          toIndexedLog(monitorScope, "GroundTruthAttached", log, { predictionId: log.args.predictionId.toString() })
+        )
+      ];
+    };
+    await indexContract(
+      db,
+      monitorScope,
+      config.deploymentBlocks.aiMonitorAddress,
+      head,
+      fetchPredictionLogs,
+      options
+    );
+
+    const labelled = new Set<number>();
+    for (const log of await withUnconfirmed(monitorScope, fetchPredictionLogs)) {
+      if (log.event === "GroundTruthAttached") {
+        labelled.add(Number(log.args.predictionId));
+        continue;
+      }
+      predictions.push({
+        id: Number(log.args.id),
+        modelId: log.args.modelId,
+        modelHash: log.args.modelHash,
+        timestamp: Number(log.args.timestamp),
+        blockNumber: log.blockNumber,
+        labelPending: log.args.labelPending === "true"
+      });
+    }
+    for (const prediction of predictions) {
+      if (labelled.has(prediction.id)) prediction.labelPending = false;
+    }
+  }
+
+  return { metrics: [...latest.values()], predictions, lastBlock: head };
+}
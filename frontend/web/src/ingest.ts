@@ -0,0 +1,120 @@
+// ingest.ts
+import { config, getAiMonitorContractWithSigner } from "./contract";
+import { encryptPredictionBatch } from "./fhe";
+import { parseRevert, trackTransaction } from "./transactions";
+
+export interface PredictionRow {
+  input: number;
+  prediction: number;
+  groundTruth: number;
+}
+
+export interface IngestProgress {
+  recorded: number;
+  total: number;
+  transactions: number;
+}
+
+export interface IngestOptions {
+  batchSize?: number;
+  maxGasPerBatch?: bigint;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+// One input proof carries at most 2048 encrypted bits, i.e. 21 predictions of three euint32 values.
+export const MAX_BATCH_SIZE = 21;
+export const DEFAULT_MAX_GAS_PER_BATCH = 10_000_000n;
+
+// Drift and classification tracking add FHE operations per row, so with both on a batch runs out of
+// HCU long before it fills an input proof. The estimate then reverts with one of these.
+const COMPUTE_LIMIT_ERRORS = ["HCUTransactionLimitExceeded", "HCUTransactionDepthLimitExceeded"];
+
+const COLUMN_ALIASES: Record<keyof PredictionRow, string[]> = {
+  input: ["input"],
+  prediction: ["prediction", "output"],
+  groundTruth: ["groundtruth", "ground_truth", "label"]
+};
+
+function toRow(record: Record<string, unknown>, line: number): PredictionRow {
+  const keys = Object.keys(record);
+  const pick = (field: keyof PredictionRow) => {
+    const key = keys.find(k => COLUMN_ALIASES[field].includes(k.trim().toLowerCase()));
+    const value = key === undefined ? NaN : Number(record[key]);
+    if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+      throw new Error(`Line ${line}: "${field}" must be an unsigned 32-bit integer`);
+    }
+    return value;
+  };
+  return { input: pick("input"), prediction: pick("prediction"), groundTruth: pick("groundTruth") };
+}
+
+// CSV needs a header row naming the input, prediction and ground truth columns; JSONL needs one object per line.
+export function parseDataset(text: string, format: "csv" | "jsonl"): PredictionRow[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+
+  if (format === "jsonl") {
+    return lines
+      .map((l, i) => [l, i + 1] as const)
+      .filter(([l]) => l.length > 0)
+      .map(([l, line]) => toRow(JSON.parse(l), line));
+  }
+
+  const [header, ...body] = lines;
+  const columns = (header || "").split(",");
+  return body
+    .map((l, i) => [l, i + 2] as const)
+    .filter(([l]) => l.length > 0)
+    .map(([l, line]) => {
+      const cells = l.split(",");
+      return toRow(Object.fromEntries(columns.map((c, j) => [c, cells[j]])), line);
+    });
+}
+
+export function detectFormat(fileName: string): "csv" | "jsonl" {
+  return /\.jsonl?$/i.test(fileName) ? "jsonl" : "csv";
+}
+
+export async function ingestPredictions(
+  modelId: string,
+  userAddress: string,
+  rows: PredictionRow[],
+  options: IngestOptions = {}
+): Promise<IngestProgress> {
+  const batchSize = Math.max(1, Math.min(options.batchSize || MAX_BATCH_SIZE, MAX_BATCH_SIZE));
+  const maxGas = options.maxGasPerBatch ?? DEFAULT_MAX_GAS_PER_BATCH;
+  const contract = await getAiMonitorContractWithSigner();
+  const progress: IngestProgress = { recorded: 0, total: rows.length, transactions: 0 };
+
+  // Halves the chunk until its gas estimate fits and it stays within the HCU limit; the proof is
+  // bound to the values, so halves are re-encrypted.
+  const send = async (chunk: PredictionRow[]): Promise<void> => {
+    const batch = await encryptPredictionBatch(config.aiMonitorAddress, userAddress, chunk);
+    const args = [modelId, batch.inputs, batch.predictions, batch.groundTruths, batch.inputProof] as const;
+    let tooLarge: boolean;
+    try {
+      tooLarge = (await contract.recordEncryptedPredictionBatch.estimateGas(...args)) > maxGas;
+    } catch (error) {
+      const revert = parseRevert(error);
+      if (!revert || !COMPUTE_LIMIT_ERRORS.includes(revert.name) || chunk.length === 1) throw error;
+      tooLarge = true;
+    }
+
+    if (tooLarge && chunk.length > 1) {
+      const middle = Math.ceil(chunk.length / 2);
+      await send(chunk.slice(0, middle));
+      await send(chunk.slice(middle));
+      return;
+    }
+
+    const tx = await contract.recordEncryptedPredictionBatch(...args);
+    await trackTransaction(`Prediction batch for ${modelId} (${chunk.length} rows)`, tx);
+    progress.recorded += chunk.length;
+    progress.transactions += 1;
+    options.onProgress?.({ ...progress });
+  };
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    await send(rows.slice(start, start + batchSize));
+  }
+  return progress;
+}
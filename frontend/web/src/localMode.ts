@@ -0,0 +1,31 @@
+// localMode.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { activeNetwork } from "./networks";
+
+// Networks without relayer endpoints are hardhat nodes running the @fhevm/hardhat-plugin mock
+export const isLocalMode = activeNetwork.fhevm === null;
+
+const localProvider = () => new ethers.JsonRpcProvider(activeNetwork.rpcUrls[0], activeNetwork.chainId);
+
+// Builds the mock instance from the addresses the node reports, so nothing has to be configured
+// after restarting it. The mock library is loaded on demand and stays out of the Sepolia bundle.
+export async function createMockFhevmInstance(): Promise<FhevmInstance> {
+  const { MockFhevmInstance, contracts } = await import("@fhevm/mock-utils");
+  const provider = localProvider();
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const repository = await contracts.FhevmContractsRepository.create(provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress
+  });
+  const config = repository.getFhevmInstanceConfig({ chainId: activeNetwork.chainId, relayerUrl: "" });
+  const instance = await MockFhevmInstance.create(provider, provider, { ...config, chainId: activeNetwork.chainId });
+  return instance as unknown as FhevmInstance;
+}
+
+// The mock decryption oracle only fulfils requests when asked, so after every confirmed
+// transaction the node is told to answer whatever decryptions it has queued.
+export async function awaitMockDecryptions() {
+  if (!isLocalMode) return;
+  await localProvider().send("fhevm_awaitDecryptionOracle", []);
+}
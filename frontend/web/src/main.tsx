@@ -5,15 +5,27 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { defineChain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { activeNetwork, NETWORKS } from './networks';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// Every registry network, with the selected one first so wagmi treats it as the default chain
+const chains = [activeNetwork, ...NETWORKS.filter(network => network.key !== activeNetwork.key)].map(network =>
+  defineChain({
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: { default: { http: network.rpcUrls } },
+    blockExplorers: network.explorerUrl ? { default: { name: 'Explorer', url: network.explorerUrl } } : undefined,
+  })
+);
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: chains as [typeof chains[number], ...typeof chains],
 });
 
 const queryClient = new QueryClient();
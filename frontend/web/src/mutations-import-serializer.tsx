@@ -1,3 +0,0 @@
-import { useState, useEffect } from 'react';
-
-interface adaptive-smsProps { data: string }
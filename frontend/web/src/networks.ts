@@ -0,0 +1,57 @@
+// networks.ts
+import registryJson from "./networks.json";
+import type { NetworkEntry, NetworkRegistry } from "../../../deploy/networks";
+
+export type { FhevmEndpoints, NetworkEntry } from "../../../deploy/networks";
+
+export interface NetworkOption extends NetworkEntry {
+  key: string;
+}
+
+const registry = registryJson as NetworkRegistry;
+const SELECTED_NETWORK_KEY = "aiMonitor.network";
+
+export const NETWORKS: NetworkOption[] = Object.entries(registry.networks).map(([key, entry]) => ({ key, ...entry }));
+
+// The switcher's choice wins over the NETWORK build variable, which wins over the registry default
+function selectedKey(): string {
+  const stored = localStorage.getItem(SELECTED_NETWORK_KEY);
+  if (stored && registry.networks[stored]) return stored;
+  const fromEnv = process.env.NETWORK;
+  if (fromEnv && registry.networks[fromEnv]) return fromEnv;
+  return registry.defaultNetwork;
+}
+
+export const activeNetwork: NetworkOption = NETWORKS.find(network => network.key === selectedKey())!;
+
+const hexChainId = (chainId: number) => `0x${chainId.toString(16)}`;
+
+// Asks the wallet to switch chains, adding the chain first when the wallet does not know it (EIP-3085).
+export async function switchWalletNetwork(ethereum: any, network: NetworkOption = activeNetwork) {
+  try {
+    await ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId(network.chainId) }] });
+  } catch (switchError: any) {
+    if (switchError.code !== 4902) throw switchError;
+    await ethereum.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: hexChainId(network.chainId),
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+      }]
+    });
+  }
+}
+
+// Providers, the event index and the FHEVM instance are all bound to one chain, so changing
+// networks switches the wallet and then reloads the dashboard against the new entry.
+export async function selectNetwork(key: string) {
+  const network = NETWORKS.find(option => option.key === key);
+  if (!network) throw new Error(`Unknown network "${key}"`);
+  const ethereum = (window as any).ethereum;
+  if (ethereum) await switchWalletNetwork(ethereum, network);
+  localStorage.setItem(SELECTED_NETWORK_KEY, key);
+  window.location.reload();
+}
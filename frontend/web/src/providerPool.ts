@@ -0,0 +1,178 @@
+// providerPool.ts
+import { ethers } from "ethers";
+import { activeNetwork } from "./networks";
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  latency: number | null;
+  blockNumber: number | null;
+  checkedAt: number;
+}
+
+export type PoolState = "checking" | "healthy" | "degraded" | "down";
+
+export interface PoolStatus {
+  state: PoolState;
+  endpoints: EndpointHealth[];
+  activeUrls: string[];
+}
+
+const NETWORK = ethers.Network.from({ name: activeNetwork.key, chainId: activeNetwork.chainId });
+const HEALTH_STORAGE_KEY = "aiMonitor.rpcHealth";
+const PROBE_TIMEOUT = 4000;
+// Rankings older than this are re-probed in the background while the cached provider keeps serving
+const SELECTION_TTL = 60000;
+// An endpoint this many blocks behind the best one is treated as unhealthy
+const MAX_BLOCK_LAG = 5;
+const MAX_ACTIVE_ENDPOINTS = 3;
+const STALL_TIMEOUT = 1500;
+// A replaced pool keeps answering requests already in flight for this long before it is destroyed
+const RETIRE_DELAY = 30000;
+
+// RPC_URLS (comma separated) overrides the active network's rpcUrls from networks.json
+function configuredUrls(): string[] {
+  const fromEnv = process.env.RPC_URLS?.split(",").map(url => url.trim()).filter(Boolean);
+  const urls = fromEnv && fromEnv.length > 0 ? fromEnv : activeNetwork.rpcUrls;
+  return [...new Set(urls)];
+}
+
+function configuredQuorum(): number {
+  return Math.max(Number(process.env.RPC_QUORUM || activeNetwork.rpcQuorum || 1), 1);
+}
+
+let status: PoolStatus = { state: "checking", endpoints: loadStoredHealth(), activeUrls: [] };
+let selection: { provider: ethers.FallbackProvider; selectedAt: number } | null = null;
+let probing: Promise<ethers.FallbackProvider> | null = null;
+const listeners = new Set<(status: PoolStatus) => void>();
+
+function loadStoredHealth(): EndpointHealth[] {
+  try {
+    const stored: EndpointHealth[] = JSON.parse(localStorage.getItem(HEALTH_STORAGE_KEY) || "[]");
+    const urls = configuredUrls();
+    return stored.filter(endpoint => urls.includes(endpoint.url));
+  } catch {
+    return [];
+  }
+}
+
+function setStatus(next: PoolStatus) {
+  status = next;
+  localStorage.setItem(HEALTH_STORAGE_KEY, JSON.stringify(next.endpoints));
+  listeners.forEach(listener => listener(next));
+}
+
+export function getPoolStatus(): PoolStatus {
+  return status;
+}
+
+export function subscribePoolStatus(listener: (status: PoolStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const createEndpoint = (url: string) => new ethers.JsonRpcProvider(url, NETWORK, { staticNetwork: NETWORK });
+
+async function probe(url: string): Promise<EndpointHealth> {
+  const provider = createEndpoint(url);
+  const started = performance.now();
+  try {
+    const blockNumber = await Promise.race([
+      provider.getBlockNumber(),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), PROBE_TIMEOUT))
+    ]);
+    return { url, healthy: true, latency: Math.round(performance.now() - started), blockNumber, checkedAt: Date.now() };
+  } catch {
+    return { url, healthy: false, latency: null, blockNumber: null, checkedAt: Date.now() };
+  } finally {
+    provider.destroy();
+  }
+}
+
+// Probes every endpoint in parallel, so a dead endpoint costs at most PROBE_TIMEOUT instead of
+// delaying the ones after it, then ranks the healthy ones by latency.
+export async function checkEndpoints(): Promise<EndpointHealth[]> {
+  const results = await Promise.all(configuredUrls().map(probe));
+  const head = Math.max(...results.map(endpoint => endpoint.blockNumber ?? 0));
+  for (const endpoint of results) {
+    if (endpoint.healthy && head - (endpoint.blockNumber ?? 0) > MAX_BLOCK_LAG) endpoint.healthy = false;
+  }
+  return results.sort((a, b) => {
+    if (a.healthy !== b.healthy) return a.healthy ? -1 : 1;
+    return (a.latency ?? Infinity) - (b.latency ?? Infinity);
+  });
+}
+
+// Requests go to the fastest endpoint first; when it errors or stalls the next one is tried, and
+// with a quorum above 1 the answer must agree across that many endpoints.
+function buildProvider(ranked: EndpointHealth[]): ethers.FallbackProvider {
+  const quorum = configuredQuorum();
+  const healthy = ranked.filter(endpoint => endpoint.healthy);
+  const active = (healthy.length > 0 ? healthy : ranked).slice(0, Math.max(MAX_ACTIVE_ENDPOINTS, quorum));
+  const provider = new ethers.FallbackProvider(
+    active.map((endpoint, index) => ({
+      provider: createEndpoint(endpoint.url),
+      priority: index + 1,
+      stallTimeout: STALL_TIMEOUT,
+      weight: 1
+    })),
+    NETWORK,
+    { quorum: Math.min(quorum, active.length) }
+  );
+
+  const state: PoolState =
+    healthy.length === 0 ? "down" : healthy.length < ranked.length ? "degraded" : "healthy";
+  setStatus({ state, endpoints: ranked, activeUrls: active.map(endpoint => endpoint.url) });
+  return provider;
+}
+
+// Swaps in a new pool and destroys the previous one once its in-flight requests had time to settle,
+// so its polling and subscriptions stop. Long-lived holders (the event subscription) notice the
+// destroyed provider through their health check and reconnect to the current pool.
+function select(provider: ethers.FallbackProvider, selectedAt: number) {
+  const previous = selection?.provider;
+  const current = { provider, selectedAt };
+  selection = current;
+  if (previous && previous !== provider) setTimeout(() => previous.destroy(), RETIRE_DELAY);
+  return current;
+}
+
+function reselect(): Promise<ethers.FallbackProvider> {
+  if (!probing) {
+    probing = checkEndpoints()
+      .then(ranked => {
+        if (ranked.length === 0) throw new Error("No RPC endpoints configured");
+        const provider = buildProvider(ranked);
+        select(provider, Date.now());
+        return provider;
+      })
+      .finally(() => {
+        probing = null;
+      });
+  }
+  return probing;
+}
+
+// Returns the cached pool provider. The first call waits for one round of probes; after that a
+// stale ranking is refreshed in the background and the cached provider is returned immediately.
+export async function getPoolProvider(): Promise<ethers.FallbackProvider> {
+  let current = selection;
+  if (!current) {
+    // A recent ranking from the previous page load is good enough to start with
+    const stored = status.endpoints;
+    const fresh = stored.length > 0 && stored.every(endpoint => Date.now() - endpoint.checkedAt < SELECTION_TTL);
+    if (!fresh || !stored.some(endpoint => endpoint.healthy)) return reselect();
+    current = select(buildProvider(stored), Math.min(...stored.map(endpoint => endpoint.checkedAt)));
+  }
+  if (Date.now() - current.selectedAt > SELECTION_TTL) {
+    reselect().catch(error => console.warn("RPC pool health check failed:", error));
+  }
+  return current.provider;
+}
+
+// Forces a new round of probes, e.g. after a subscription noticed the current pool stopped answering.
+export function refreshProviderPool(): Promise<ethers.FallbackProvider> {
+  return reselect();
+}
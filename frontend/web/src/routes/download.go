@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\routes\download.go
-// Generated at: 2025-10-14T16:36:29.527Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\routes\queries-import-serializer.py
-// Generated at: 2025-10-14T16:36:29.526Z
\ No newline at end of file
@@ -0,0 +1,151 @@
+// subscriptions.ts
+import { ethers } from "ethers";
+import { ABI, AI_MONITOR_ABI, config, getTestnetProvider } from "./contract";
+import { refreshProviderPool } from "./providerPool";
+import type { AiMonitor_FHE, UniversalAdapter } from "../../../types";
+
+export type ConnectionState = "connecting" | "live" | "reconnecting";
+
+// Handlers may see an event twice around a reconnect, so they should upsert rather than append.
+export interface DashboardHandlers {
+  onDataStored?: (key: string, value: string) => void;
+  onPredictionRecorded?: (predictionId: number, modelId: string) => void;
+  onGroundTruthAttached?: (predictionId: number) => void;
+  onAlertDecrypted?: (predictionId: number) => void;
+  onMetricsDecrypted?: (modelId: string) => void;
+  onConfusionMatrixDecrypted?: (modelId: string) => void;
+  onFairnessDecrypted?: (modelId: string, segment: number) => void;
+  onStateChange?: (state: ConnectionState) => void;
+}
+
+const HEALTH_CHECK_INTERVAL = 15000;
+const HEALTH_CHECK_TIMEOUT = 10000;
+const INITIAL_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 60000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), ms))
+  ]);
+
+// Listens to UniversalAdapter and AiMonitor_FHE events. When the RPC stops answering, the
+// listeners are torn down, the RPC pool is re-ranked and events from the blocks missed in
+// between are replayed before live delivery resumes. Returns the unsubscribe function.
+export function subscribeToDashboard(handlers: DashboardHandlers): () => void {
+  let stopped = false;
+  let provider: ethers.Provider | null = null;
+  let adapter: UniversalAdapter | null = null;
+  let monitor: AiMonitor_FHE | null = null;
+  let healthTimer: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY;
+  let lastBlock: number | null = null;
+
+  const dataStored = (_sender: string, key: string, value: string) => handlers.onDataStored?.(key, value);
+  const predictionRecorded = (id: bigint, _modelHash: string, modelId: string) =>
+    handlers.onPredictionRecorded?.(Number(id), modelId);
+  const groundTruthAttached = (predictionId: bigint) => handlers.onGroundTruthAttached?.(Number(predictionId));
+  const alertDecrypted = (predictionId: bigint) => handlers.onAlertDecrypted?.(Number(predictionId));
+  const metricsDecrypted = (modelId: string) => handlers.onMetricsDecrypted?.(modelId);
+  const confusionMatrixDecrypted = (modelId: string) => handlers.onConfusionMatrixDecrypted?.(modelId);
+  const fairnessDecrypted = (modelId: string, segment: bigint) =>
+    handlers.onFairnessDecrypted?.(modelId, Number(segment));
+
+  const teardown = () => {
+    if (healthTimer) clearInterval(healthTimer);
+    healthTimer = null;
+    adapter?.removeAllListeners().catch(() => {});
+    monitor?.removeAllListeners().catch(() => {});
+    // The pool provider is shared with the rest of the dashboard, so it is left running
+    adapter = null;
+    monitor = null;
+    provider = null;
+  };
+
+  const replay = async (fromBlock: number, toBlock: number) => {
+    if (fromBlock > toBlock) return;
+    for (const log of await adapter!.queryFilter(adapter!.filters.DataStored, fromBlock, toBlock)) {
+      dataStored(log.args.sender, log.args.key, log.args.value);
+    }
+    if (!monitor) return;
+    for (const log of await monitor.queryFilter(monitor.filters.PredictionRecorded, fromBlock, toBlock)) {
+      predictionRecorded(log.args.id, log.args.modelHash, log.args.modelId);
+    }
+    for (const log of await monitor.queryFilter(monitor.filters.GroundTruthAttached, fromBlock, toBlock)) {
+      groundTruthAttached(log.args.predictionId);
+    }
+    for (const log of await monitor.queryFilter(monitor.filters.PerformanceAlertDecrypted, fromBlock, toBlock)) {
+      alertDecrypted(log.args.predictionId);
+    }
+    for (const log of await monitor.queryFilter(monitor.filters.ModelMetricsDecrypted, fromBlock, toBlock)) {
+      metricsDecrypted(log.args.modelId);
+    }
+    for (const log of await monitor.queryFilter(monitor.filters.ConfusionMatrixDecrypted, fromBlock, toBlock)) {
+      confusionMatrixDecrypted(log.args.modelId);
+    }
+    for (const log of await monitor.queryFilter(monitor.filters.FairnessDecrypted, fromBlock, toBlock)) {
+      fairnessDecrypted(log.args.modelId, log.args.segment);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    teardown();
+    if (stopped) return;
+    handlers.onStateChange?.("reconnecting");
+    retryTimer = setTimeout(connect, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  };
+
+  const checkHealth = async () => {
+    try {
+      lastBlock = await withTimeout(provider!.getBlockNumber(), HEALTH_CHECK_TIMEOUT);
+    } catch (error) {
+      console.warn("Event subscription lost its RPC connection:", error);
+      scheduleReconnect();
+    }
+  };
+
+  async function connect() {
+    retryTimer = null;
+    try {
+      provider = lastBlock === null ? await getTestnetProvider() : await refreshProviderPool();
+      adapter = new ethers.Contract(config.contractAddress, ABI, provider) as unknown as UniversalAdapter;
+      if (config.aiMonitorAddress) {
+        monitor = new ethers.Contract(config.aiMonitorAddress, AI_MONITOR_ABI, provider) as unknown as AiMonitor_FHE;
+      }
+
+      const currentBlock = await withTimeout(provider.getBlockNumber(), HEALTH_CHECK_TIMEOUT);
+      // The last healthy block is replayed too, since its events may not have been delivered
+      if (lastBlock !== null) await replay(lastBlock, currentBlock);
+      lastBlock = currentBlock;
+      if (stopped) return teardown();
+
+      await adapter.on(adapter.filters.DataStored, dataStored);
+      if (monitor) {
+        await monitor.on(monitor.filters.PredictionRecorded, predictionRecorded);
+        await monitor.on(monitor.filters.GroundTruthAttached, groundTruthAttached);
+        await monitor.on(monitor.filters.PerformanceAlertDecrypted, alertDecrypted);
+        await monitor.on(monitor.filters.ModelMetricsDecrypted, metricsDecrypted);
+        await monitor.on(monitor.filters.ConfusionMatrixDecrypted, confusionMatrixDecrypted);
+        await monitor.on(monitor.filters.FairnessDecrypted, fairnessDecrypted);
+      }
+
+      healthTimer = setInterval(checkHealth, HEALTH_CHECK_INTERVAL);
+      reconnectDelay = INITIAL_RECONNECT_DELAY;
+      handlers.onStateChange?.("live");
+    } catch (error) {
+      console.warn("Event subscription failed to connect:", error);
+      scheduleReconnect();
+    }
+  }
+
+  handlers.onStateChange?.("connecting");
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    teardown();
+  };
+}
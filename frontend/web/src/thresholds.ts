@@ -0,0 +1,61 @@
+// thresholds.ts
+import { ethers } from "ethers";
+import { getAiMonitorContractReadOnly } from "./contract";
+import { DEFAULT_SCALES, MetricScales } from "./codec";
+
+// Mirrors AiMonitor_FHE.AlertThresholds: scores are 0-100, losses are scaled by the model's loss scale
+export interface AlertThresholds {
+  criticalScore: number;
+  warningScore: number;
+  noticeScore: number;
+  retrainingScore: number;
+  lossWarning: number;
+  lossCritical: number;
+}
+
+export type MetricStatus = "normal" | "warning" | "critical";
+
+export const DEFAULT_THRESHOLDS: AlertThresholds = {
+  criticalScore: 50,
+  warningScore: 70,
+  noticeScore: 85,
+  retrainingScore: 60,
+  lossWarning: 5000,
+  lossCritical: 10000
+};
+
+export async function loadAlertThresholds(modelId: string): Promise<AlertThresholds> {
+  try {
+    const contract = await getAiMonitorContractReadOnly();
+    if (!contract || !modelId) return DEFAULT_THRESHOLDS;
+
+    const owner = await contract.getModelOwner(modelId);
+    if (owner === ethers.ZeroAddress) return DEFAULT_THRESHOLDS;
+
+    const t = await contract.getAlertThresholds(modelId);
+    return {
+      criticalScore: Number(t.criticalScore),
+      warningScore: Number(t.warningScore),
+      noticeScore: Number(t.noticeScore),
+      retrainingScore: Number(t.retrainingScore),
+      lossWarning: Number(t.lossWarning),
+      lossCritical: Number(t.lossCritical)
+    };
+  } catch (error) {
+    console.error("Failed to load alert thresholds:", error);
+    return DEFAULT_THRESHOLDS;
+  }
+}
+
+// The dashboard has three states, so the contract's Critical and Warning levels both show as critical
+export function classifyMetric(
+  accuracy: number,
+  loss: number,
+  thresholds: AlertThresholds,
+  scales: MetricScales = DEFAULT_SCALES
+): MetricStatus {
+  const scaledLoss = loss * scales.loss;
+  if (accuracy < thresholds.warningScore || scaledLoss > thresholds.lossCritical) return "critical";
+  if (accuracy < thresholds.noticeScore || scaledLoss > thresholds.lossWarning) return "warning";
+  return "normal";
+}
@@ -0,0 +1,197 @@
+// transactions.ts
+import { ethers } from "ethers";
+import { ABI, AI_MONITOR_ABI, REGISTRY_ABI, config } from "./contract";
+import { awaitMockDecryptions } from "./localMode";
+
+export type TransactionState = "pending" | "confirmed" | "failed";
+
+export interface TrackedTransaction {
+  hash: string;
+  label: string;
+  chainId: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  state: TransactionState;
+  confirmations: number;
+  blockNumber?: number;
+  gasUsed?: string;
+  error?: string;
+  submittedAt: number;
+}
+
+const STORAGE_KEY = "aiMonitor.transactions";
+const MAX_HISTORY = 50;
+export const REQUIRED_CONFIRMATIONS = 3;
+
+// The FHEVM executor reverts with these when a transaction asks for more FHE work than it allows
+const HCU_LIMIT_ABI = ["error HCUTransactionLimitExceeded()", "error HCUTransactionDepthLimitExceeded()"];
+const ERROR_INTERFACES = [AI_MONITOR_ABI, REGISTRY_ABI, ABI, HCU_LIMIT_ABI].map(abi => new ethers.Interface(abi));
+
+type Listener = (history: TrackedTransaction[]) => void;
+const listeners = new Set<Listener>();
+
+export function getTransactionHistory(): TrackedTransaction[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(history: TrackedTransaction[]) {
+  const trimmed = history.slice(0, MAX_HISTORY);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+  listeners.forEach(listener => listener(trimmed));
+}
+
+function updateTransaction(hash: string, changes: Partial<TrackedTransaction>) {
+  saveHistory(getTransactionHistory().map(tx => (tx.hash === hash ? { ...tx, ...changes } : tx)));
+}
+
+export function subscribeTransactions(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function clearTransactionHistory() {
+  saveHistory(getTransactionHistory().filter(tx => tx.state === "pending"));
+}
+
+export function explorerTxUrl(hash: string): string | null {
+  return config.explorerUrl ? `${config.explorerUrl.replace(/\/$/, "")}/tx/${hash}` : null;
+}
+
+const findRevertData = (error: any): string | undefined => {
+  for (const candidate of [error?.data, error?.info?.error?.data, error?.error?.data]) {
+    if (typeof candidate === "string" && candidate.startsWith("0x")) return candidate;
+    if (typeof candidate?.data === "string") return candidate.data;
+  }
+  return undefined;
+};
+
+const formatRevert = (name: string, args: ethers.Result | readonly any[]) =>
+  args.length > 0 ? `${name}(${[...args].map(String).join(", ")})` : name;
+
+// The custom error a call reverted with, if its data matches one of the known ABIs
+export function parseRevert(error: any): ethers.ErrorDescription | null {
+  const data = findRevertData(error);
+  if (!data || data === "0x") return null;
+  for (const iface of ERROR_INTERFACES) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) return parsed;
+    } catch {
+      // Not an error of this contract
+    }
+  }
+  return null;
+}
+
+// Turns a wallet, RPC or revert error into one readable line, naming custom errors from the ABIs.
+export function decodeTransactionError(error: any): string {
+  if (error?.code === "ACTION_REJECTED") return "Transaction rejected by user";
+  if (error?.revert) return formatRevert(error.revert.name, error.revert.args);
+
+  const parsed = parseRevert(error);
+  if (parsed) return formatRevert(parsed.name, parsed.args);
+  if (error?.reason) return error.reason;
+  return error?.shortMessage || error?.message || "Unknown error";
+}
+
+// A mined transaction only records that it reverted; replaying it at its block recovers the reason.
+async function replayRevert(provider: ethers.Provider, hash: string, blockNumber: number): Promise<string> {
+  const tx = await provider.getTransaction(hash);
+  if (!tx) return "Reverted";
+  try {
+    await provider.call({ to: tx.to, from: tx.from, data: tx.data, value: tx.value, blockTag: blockNumber });
+    return "Reverted";
+  } catch (error) {
+    return decodeTransactionError(error);
+  }
+}
+
+async function watchConfirmations(provider: ethers.Provider, hash: string, blockNumber: number) {
+  let confirmations = 1;
+  while (confirmations < REQUIRED_CONFIRMATIONS) {
+    await new Promise(resolve => provider.once("block", resolve));
+    confirmations = Math.max((await provider.getBlockNumber()) - blockNumber + 1, confirmations);
+    updateTransaction(hash, { confirmations: Math.min(confirmations, REQUIRED_CONFIRMATIONS) });
+  }
+}
+
+async function settle(provider: ethers.Provider, hash: string, receipt: ethers.TransactionReceipt | null) {
+  if (!receipt) return;
+  if (receipt.status === 1) {
+    updateTransaction(hash, {
+      state: "confirmed",
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      confirmations: 1
+    });
+    watchConfirmations(provider, hash, receipt.blockNumber).catch(() => {});
+  } else {
+    updateTransaction(hash, {
+      state: "failed",
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      error: await replayRevert(provider, hash, receipt.blockNumber)
+    });
+  }
+}
+
+// Records the transaction, waits for it to be mined and keeps the entry up to date. Resolves with
+// the receipt; rejects with an Error carrying the decoded revert reason when it fails.
+export async function trackTransaction(
+  label: string,
+  tx: ethers.TransactionResponse
+): Promise<ethers.TransactionReceipt> {
+  saveHistory([
+    {
+      hash: tx.hash,
+      label,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      to: tx.to,
+      nonce: tx.nonce,
+      state: "pending",
+      confirmations: 0,
+      submittedAt: Math.floor(Date.now() / 1000)
+    },
+    ...getTransactionHistory().filter(entry => entry.hash !== tx.hash)
+  ]);
+
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.provider.waitForTransaction(tx.hash);
+  } catch (error) {
+    const message = decodeTransactionError(error);
+    updateTransaction(tx.hash, { state: "failed", error: message });
+    throw new Error(message);
+  }
+
+  await settle(tx.provider, tx.hash, receipt);
+  const entry = getTransactionHistory().find(item => item.hash === tx.hash);
+  if (!receipt || entry?.state === "failed") {
+    throw new Error(entry?.error || "Reverted");
+  }
+  await awaitMockDecryptions();
+  return receipt;
+}
+
+// After a reload, picks the pending transactions of this chain back up.
+export async function resumePendingTransactions(provider: ethers.Provider) {
+  const { chainId } = await provider.getNetwork();
+  const pending = getTransactionHistory().filter(tx => tx.state === "pending" && BigInt(tx.chainId) === chainId);
+  await Promise.all(
+    pending.map(async tx => {
+      try {
+        await settle(provider, tx.hash, await provider.waitForTransaction(tx.hash));
+      } catch (error) {
+        updateTransaction(tx.hash, { state: "failed", error: decodeTransactionError(error) });
+      }
+    })
+  );
+}
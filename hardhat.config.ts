@@ -2,18 +2,31 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/cleanGenerated";
+import "./tasks/deployMonitor";
+import "./tasks/migrateMetricKeys";
+import "./tasks/seedLocal";
+import { loadNetworks } from "./deploy/networks";
+
+// Every chain in the shared network registry becomes a hardhat network of the same name.
+// <NAME>_RPC_URL overrides the registry's first RPC, e.g. SEPOLIA_RPC_URL for a keyed endpoint in CI.
+const registryNetworks = Object.fromEntries(
+  Object.entries(loadNetworks().networks).map(([key, network]) => [
+    key,
+    {
+      chainId: network.chainId,
+      url: process.env[`${key.toUpperCase()}_RPC_URL`] || network.rpcUrls[0],
+    },
+  ]),
+);
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
+    ...registryNetworks,
     hardhat: {
       chainId: 31337,
     },
-    sepolia: {
-      chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
-    },
   },
   solidity: {
     version: "0.8.24",
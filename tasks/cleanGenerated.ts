@@ -0,0 +1,186 @@
+// tasks/cleanGenerated.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+// The old deploy script scattered placeholder files named from this word list across the tree and
+// listed them in .diffcache. Files that predate the cache are recognised by name and template.
+const WORD_LIBRARY = [
+  "api ape auth backend config controller database endpoint frontend gateway",
+  "handler interface middleware model module provider router service util",
+  "validator adapter bridge decorator factory manager registry resolver",
+  "serializer user account profile payment order product inventory customer",
+  "admin notification message email sms upload download export import report",
+  "analytics statistics types constants helpers hooks styles components",
+  "layouts pages routes queries mutations subscriptions fragments main common",
+  "shared global local base core advanced simple complex dynamic static",
+  "responsive adaptive secure utils lib src dist build test spec mock fixture",
+  "example demo template boilerplate configuration environment",
+].flatMap((line) => line.split(" "));
+const FILE_EXTENSIONS = [
+  ".ts .js .tsx .jsx .sol .java .py .rs .go .json .yaml .yml .toml .ini .env",
+  ".md .txt .rst .adoc .css .scss .sass .less .styl",
+].flatMap((line) => line.split(" "));
+
+const CACHE_FILE = ".diffcache";
+const SKIPPED_DIRS = new Set([
+  ".git",
+  "node_modules",
+  "artifacts",
+  "cache",
+  "fhevmTemp",
+  "types",
+  "deployments",
+]);
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const word = `(?:${WORD_LIBRARY.join("|")})`;
+const GENERATED_NAME = new RegExp(`^${word}(?:-${word}){0,2}$`);
+const name = "[\\w-]+";
+
+// One pattern per template the generator wrote, matched against the whole file
+const TEMPLATES = [
+  /^\/\/ Auto-generated file: .*\n\/\/ Generated at: \S+$/,
+  new RegExp(
+    "^(?:" +
+      [
+        "import React from 'react';",
+        "import { useState, useEffect } from 'react';",
+        "import { ethers } from 'ethers';",
+        "import axios from 'axios';",
+        "export const config = { runtime: 'edge' };",
+      ]
+        .map(escape)
+        .join("|") +
+      ")\\n\\n(?:" +
+      [
+        `export const ${name} = \\(\\) => \\{ return null; \\};`,
+        `export default function ${name}\\(\\) \\{ return <div>Component</div>; \\}`,
+        `export const use${name} = \\(\\) => \\{ return \\{\\}; \\};`,
+        `interface ${name}Props \\{ data: string \\}`,
+      ].join("|") +
+      ")\\n$",
+  ),
+  new RegExp(
+    `^\\{\\n  "theme": "dark",\\n  "language": "en"\\n\\}$|^\\{\\n  "${name}": "(?:\\^1\\.0\\.0|warn)"\\n\\}$`,
+  ),
+  new RegExp(
+    `^# ${name}\\n\\n` +
+      escape(
+        "This is an auto-generated documentation file.\n\n## Usage\n\nExample usage goes here.\n\n",
+      ) +
+      escape("## Configuration\n\nAdd your configuration details here.") +
+      "$",
+  ),
+  new RegExp(
+    `^\\.${name} ` +
+      escape(
+        "{\n  margin: 0;\n  padding: 1rem;\n  background-color: #fff;\n}\n\n",
+      ) +
+      escape(".container {\n  max-width: 1200px;\n  margin: 0 auto;\n}") +
+      "$",
+  ),
+  new RegExp(
+    escape("// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\n") +
+      `contract ${name} ` +
+      escape(
+        "{\n    address public owner;\n    \n    constructor() {\n        owner = msg.sender;\n    }\n    \n",
+      ) +
+      escape(
+        "    function dummy() public pure returns (uint256) {\n        return 42;\n    }\n}",
+      ) +
+      "$",
+  ),
+];
+
+function isGeneratedFile(file: string) {
+  const extension = path.extname(file);
+  if (
+    !FILE_EXTENSIONS.includes(extension) ||
+    !GENERATED_NAME.test(path.basename(file, extension))
+  )
+    return false;
+  const content = fs.readFileSync(file, "utf8");
+  return TEMPLATES.some((template) => template.test(content));
+}
+
+// Entries are used exactly as stored. Caches written by another checkout (often a Windows one)
+// point nowhere here; their files are still found by the template scan.
+function readCache(root: string): string[] {
+  const file = path.join(root, CACHE_FILE);
+  if (!fs.existsSync(file)) return [];
+  return (JSON.parse(fs.readFileSync(file, "utf8")) as string[]).map((entry) =>
+    path.resolve(root, entry),
+  );
+}
+
+function scan(dir: string, found: string[]) {
+  for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, item.name);
+    if (item.isDirectory()) {
+      if (!SKIPPED_DIRS.has(item.name)) scan(fullPath, found);
+    } else if (item.isFile() && isGeneratedFile(fullPath)) {
+      found.push(fullPath);
+    }
+  }
+  return found;
+}
+
+async function cleanGenerated(
+  args: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+) {
+  const root = hre.config.paths.root;
+  const cached = readCache(root).filter(
+    (entry) => entry.startsWith(root + path.sep) && fs.existsSync(entry),
+  );
+  // A cached path may have been reused for a real file since, so it must still look generated
+  const files = new Set([
+    ...cached.filter(
+      (entry) => fs.statSync(entry).isFile() && isGeneratedFile(entry),
+    ),
+    ...scan(root, []),
+  ]);
+  // Generated folders go once they are empty; anything else put in them since is left alone
+  const folders = new Set(
+    cached.filter((entry) => fs.statSync(entry).isDirectory()),
+  );
+
+  for (const file of [...files].sort()) {
+    console.log(
+      `${args.dryRun ? "Would delete" : "Deleted"} ${path.relative(root, file)}`,
+    );
+    if (!args.dryRun) fs.unlinkSync(file);
+    folders.add(path.dirname(file));
+  }
+  if (args.dryRun) {
+    console.log(`${files.size} generated file(s) found`);
+    return;
+  }
+
+  // Deepest first, so nested generated folders empty out before their parents are checked
+  const emptied = [...folders].sort((a, b) => b.length - a.length);
+  for (const folder of emptied) {
+    if (
+      folder === root ||
+      !fs.existsSync(folder) ||
+      fs.readdirSync(folder).length > 0
+    )
+      continue;
+    fs.rmdirSync(folder);
+    console.log(`Removed empty folder ${path.relative(root, folder)}`);
+  }
+  if (fs.existsSync(path.join(root, CACHE_FILE))) {
+    fs.unlinkSync(path.join(root, CACHE_FILE));
+    console.log(`Deleted ${CACHE_FILE}`);
+  }
+  console.log(`Removed ${files.size} generated file(s)`);
+}
+
+task(
+  "clean-generated",
+  "Deletes the placeholder files earlier deploy scripts generated, listed in .diffcache or matched by template",
+)
+  .addFlag("dryRun", "Only list what would be deleted")
+  .setAction(cleanGenerated);
@@ -0,0 +1,115 @@
+// tasks/deployMonitor.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  deployMonitorStack,
+  loadManifest,
+  saveManifest,
+} from "../deploy/contracts";
+import type { ManifestEntry } from "../deploy/contracts";
+import { loadNetworks, saveNetworkDeployment } from "../deploy/networks";
+import { resolveSigner, SIGNER_SOURCES } from "../deploy/signers";
+
+const FRONTEND_ABI_DIR = path.join(__dirname, "../frontend/web/src/abi");
+const FRONTEND_CONTRACTS = [
+  "UniversalAdapter",
+  "AiMonitor_FHE",
+  "MetricRegistry",
+];
+
+async function copyAbis(hre: HardhatRuntimeEnvironment) {
+  fs.mkdirSync(FRONTEND_ABI_DIR, { recursive: true });
+  for (const contractName of FRONTEND_CONTRACTS) {
+    if (!(await hre.artifacts.artifactExists(contractName))) {
+      console.warn(
+        `No artifact for ${contractName}, keeping frontend/web/src/abi/${contractName}.json as is`,
+      );
+      continue;
+    }
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    fs.writeFileSync(
+      path.join(FRONTEND_ABI_DIR, `${contractName}.json`),
+      JSON.stringify(artifact, null, 2),
+    );
+    console.log(`Copied ABI to frontend/web/src/abi/${contractName}.json`);
+  }
+}
+
+async function deployMonitor(
+  args: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+) {
+  const { ethers, network } = hre;
+  const { chainId } = await ethers.provider.getNetwork();
+  const signer = await resolveSigner(args.signer, hre, ethers.provider);
+  const deployer = await signer.getAddress();
+
+  const manifest = args.fresh ? null : loadManifest(network.name);
+  if (manifest && manifest.chainId !== Number(chainId)) {
+    throw new Error(
+      `deployments/${network.name}.json is for chain ${manifest.chainId}, but the RPC serves ${chainId}`,
+    );
+  }
+  console.log(
+    `${args.dryRun ? "Dry run against" : "Deploying to"} ${network.name} (chain ${chainId}) as ${deployer}`,
+  );
+
+  const writeManifest = (contracts: Record<string, ManifestEntry>) =>
+    saveManifest({
+      network: network.name,
+      chainId: Number(chainId),
+      deployer,
+      updatedAt: new Date().toISOString(),
+      contracts,
+    });
+  // Recorded as each contract lands, so a run that fails midway resumes by skipping what it deployed
+  const recorded = { ...manifest?.contracts };
+  const result = await deployMonitorStack(ethers, signer, {
+    manifest,
+    dryRun: args.dryRun,
+    onDeployed: (name, entry) => {
+      recorded[name] = entry;
+      writeManifest(recorded);
+    },
+  });
+  console.log(
+    `${result.deployed.length} contract(s) ${args.dryRun ? "to deploy" : "deployed"}, ${result.skipped.length} unchanged`,
+  );
+  if (args.dryRun || result.deployed.length === 0) return;
+
+  writeManifest(result.entries);
+  console.log(`Wrote deployments/${network.name}.json`);
+
+  if (loadNetworks().networks[network.name]) {
+    saveNetworkDeployment(
+      network.name,
+      result.contracts,
+      result.deploymentBlocks,
+      deployer,
+    );
+    console.log(`Updated ${network.name} in frontend/web/src/networks.json`);
+  } else {
+    console.warn(
+      `${network.name} is not in frontend/web/src/networks.json, the frontend will not see this deployment`,
+    );
+  }
+  await copyAbis(hre);
+}
+
+task(
+  "deploy-monitor",
+  "Deploys AiMonitor_FHE and its dependencies, skipping contracts unchanged since the last run",
+)
+  .addOptionalParam(
+    "signer",
+    `Where the deployer key comes from: ${SIGNER_SOURCES.join(", ")}`,
+    "env",
+  )
+  .addFlag("dryRun", "Only report what would be deployed")
+  .addFlag(
+    "fresh",
+    "Ignore deployments/<network>.json and deploy everything again",
+  )
+  .setAction(deployMonitor);
@@ -0,0 +1,181 @@
+// tasks/migrateMetricKeys.ts
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { loadManifest } from "../deploy/contracts";
+import { loadNetworks } from "../deploy/networks";
+import type { MetricRegistry, UniversalAdapter } from "../types";
+
+export const METRIC_COLLECTION = "metrics";
+const PAGE_SIZE = 100;
+const MIN_CHUNK_SIZE = 100;
+
+// The block deploy-monitor recorded for the adapter, from its manifest or from networks.json
+function recordedDeploymentBlock(
+  network: string,
+  address: string,
+): number | undefined {
+  const sameAddress = (other?: string) =>
+    other?.toLowerCase() === address.toLowerCase();
+  const entry = Object.values(loadManifest(network)?.contracts ?? {}).find(
+    (candidate) => sameAddress(candidate.address),
+  );
+  if (entry) return entry.blockNumber;
+  const deployed = loadNetworks().networks[network];
+  if (deployed && sameAddress(deployed.contracts.contractAddress)) {
+    return deployed.deploymentBlocks?.contractAddress;
+  }
+  return undefined;
+}
+
+// Every metric id ever written through the adapter, whether it is still in metric_keys or was
+// dropped by a lost update. Ids keep the order in which their metric was first stored.
+async function collectMetricIds(
+  adapter: UniversalAdapter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number,
+): Promise<string[]> {
+  const ids = new Set<string>();
+  let from = fromBlock;
+  while (from <= toBlock) {
+    const to = Math.min(from + chunkSize - 1, toBlock);
+    let logs;
+    try {
+      logs = await adapter.queryFilter(adapter.filters.DataStored, from, to);
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+      chunkSize = Math.max(Math.floor(chunkSize / 2), MIN_CHUNK_SIZE);
+      continue;
+    }
+
+    for (const log of logs) {
+      const { key, value } = log.args;
+      if (key === "metric_keys") {
+        try {
+          for (const id of JSON.parse(
+            Buffer.from(value.slice(2), "hex").toString("utf8"),
+          ))
+            ids.add(String(id));
+        } catch {
+          console.warn(
+            `Skipping unparsable metric_keys value in block ${log.blockNumber}`,
+          );
+        }
+      } else if (key.startsWith("metric_")) {
+        ids.add(key.slice("metric_".length));
+      }
+    }
+    console.log(
+      `Scanned blocks ${from}-${to} of ${toBlock}, ${ids.size} metric ids so far`,
+    );
+    from = to + 1;
+  }
+  return [...ids];
+}
+
+async function readRegistry(registry: MetricRegistry): Promise<Set<string>> {
+  const listed = new Set<string>();
+  const total = Number(await registry.count(METRIC_COLLECTION));
+  for (let offset = 0; offset < total; offset += PAGE_SIZE) {
+    for (const id of await registry.getItems(
+      METRIC_COLLECTION,
+      offset,
+      PAGE_SIZE,
+    ))
+      listed.add(id);
+  }
+  return listed;
+}
+
+async function migrateMetricKeys(
+  args: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+) {
+  const { ethers } = hre;
+  const provider = ethers.provider;
+  const abiPath = path.join(
+    __dirname,
+    "..",
+    "frontend",
+    "web",
+    "src",
+    "abi",
+    "UniversalAdapter.json",
+  );
+  const abiJson = JSON.parse(fs.readFileSync(abiPath, "utf8"));
+  const adapter = new ethers.Contract(
+    args.adapter,
+    abiJson.abi || abiJson,
+    provider,
+  ) as unknown as UniversalAdapter;
+
+  const head = await provider.getBlockNumber();
+  const fromBlock =
+    args.fromBlock >= 0
+      ? args.fromBlock
+      : recordedDeploymentBlock(hre.network.name, args.adapter);
+  if (fromBlock === undefined) {
+    throw new Error(
+      `No deployment block recorded for ${args.adapter} on ${hre.network.name}, pass --from-block`,
+    );
+  }
+  console.log(
+    `Rebuilding the metric index from UniversalAdapter ${args.adapter}, blocks ${fromBlock}-${head}`,
+  );
+  const ids = await collectMetricIds(adapter, fromBlock, head, args.chunkSize);
+
+  const registry = (await ethers.getContractAt(
+    "MetricRegistry",
+    args.registry,
+  )) as unknown as MetricRegistry;
+  const listed = await readRegistry(registry);
+  const missing = ids.filter((id) => !listed.has(id));
+  console.log(
+    `${ids.length} metric ids found, ${listed.size} already listed, ${missing.length} to append`,
+  );
+
+  if (args.dryRun || missing.length === 0) return;
+
+  const [signer] = await ethers.getSigners();
+  if (!signer)
+    throw new Error(`No account configured for network ${hre.network.name}`);
+  for (let i = 0; i < missing.length; i += args.batchSize) {
+    const batch = missing.slice(i, i + args.batchSize);
+    const tx = await registry
+      .connect(signer)
+      .appendBatch(METRIC_COLLECTION, batch);
+    await tx.wait();
+    console.log(
+      `Appended ${i + batch.length}/${missing.length} (tx ${tx.hash})`,
+    );
+  }
+}
+
+task(
+  "migrate-metric-keys",
+  "Rebuilds the MetricRegistry index from historical UniversalAdapter DataStored events",
+)
+  .addParam("adapter", "UniversalAdapter address")
+  .addParam("registry", "MetricRegistry address")
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan (defaults to the adapter's deployment block recorded by deploy-monitor)",
+    -1,
+    types.int,
+  )
+  .addOptionalParam(
+    "chunkSize",
+    "Blocks per eth_getLogs request",
+    5000,
+    types.int,
+  )
+  .addOptionalParam(
+    "batchSize",
+    "Ids per appendBatch transaction",
+    50,
+    types.int,
+  )
+  .addFlag("dryRun", "Only report what would be appended")
+  .setAction(migrateMetricKeys);
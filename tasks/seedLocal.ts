@@ -0,0 +1,170 @@
+// tasks/seedLocal.ts
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { deployMonitorStack } from "../deploy/contracts";
+import { loadNetworks, saveNetworkDeployment } from "../deploy/networks";
+import type { AiMonitor_FHE } from "../types";
+
+const LOCAL_CHAIN_ID = 31337n;
+// Three handles per row must fit in one input proof (see MAX_BATCH_SIZE in the frontend's ingest.ts)
+const BATCH_SIZE = 21;
+// Metric values travel with the frontend's default scales (codec.ts); drift uses the loss scale
+const ACCURACY_SCALE = 100;
+const LOSS_SCALE = 10000;
+
+// Small seeded PRNG (mulberry32), so every run produces the same dataset
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+async function seedLocal(args: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers, fhevm } = hre;
+  const { chainId } = await ethers.provider.getNetwork();
+  if (chainId !== LOCAL_CHAIN_ID) {
+    throw new Error(
+      `seed-local only runs against a local hardhat node (chain ${LOCAL_CHAIN_ID}), not chain ${chainId}`,
+    );
+  }
+  await fhevm.initializeCLIApi();
+
+  const [deployer] = await ethers.getSigners();
+  const { contracts, deploymentBlocks } = await deployMonitorStack(
+    ethers,
+    deployer,
+  );
+  const monitor = (await ethers.getContractAt(
+    "AiMonitor_FHE",
+    contracts.aiMonitorAddress,
+  )) as unknown as AiMonitor_FHE;
+  const random = createRandom(args.seed);
+
+  await (await monitor.registerModel(args.model)).wait();
+  console.log(`Registered model ${args.model}`);
+
+  // Binary classifier that is right about 85% of the time
+  const rows = Array.from({ length: args.predictions }, () => {
+    const groundTruth = random() < 0.5 ? 0 : 1;
+    return {
+      input: Math.floor(random() * 1000),
+      prediction: random() < 0.85 ? groundTruth : 1 - groundTruth,
+      groundTruth,
+    };
+  });
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const batch = rows.slice(start, start + BATCH_SIZE);
+    const input = fhevm.createEncryptedInput(
+      contracts.aiMonitorAddress,
+      deployer.address,
+    );
+    for (const row of batch)
+      input.add32(row.input).add32(row.prediction).add32(row.groundTruth);
+    const { handles, inputProof } = await input.encrypt();
+    const column = (offset: number) =>
+      handles.filter((_, index) => index % 3 === offset);
+    await (
+      await monitor.recordEncryptedPredictionBatch(
+        args.model,
+        column(0),
+        column(1),
+        column(2),
+        inputProof,
+      )
+    ).wait();
+    console.log(
+      `Recorded predictions ${start + 1}-${start + batch.length} of ${rows.length}`,
+    );
+  }
+
+  // Decrypted alerts for the first few predictions, so the dashboard has something to show
+  const analysed = Math.min(args.analyses, rows.length);
+  for (let id = 1; id <= analysed; id++) {
+    await (await monitor.requestPerformanceAnalysis(id)).wait();
+  }
+  await fhevm.awaitDecryptionOracle();
+  console.log(`Revealed alerts for ${analysed} predictions`);
+
+  // Same flow as the dashboard's submit: the values only go into the model's encrypted sums, which
+  // list the submission in the registry, while the status comes from revealing the means.
+  for (let i = 0; i < args.metrics; i++) {
+    const accuracy = 60 + random() * 39;
+    const drift = random() * 0.5;
+    const loss = 0.05 + random() * 1.15;
+    const encrypted = await fhevm
+      .createEncryptedInput(contracts.aiMonitorAddress, deployer.address)
+      .add32(Math.round(accuracy * ACCURACY_SCALE))
+      .add32(Math.round(drift * LOSS_SCALE))
+      .add32(Math.round(loss * LOSS_SCALE))
+      .encrypt();
+    const payload = {
+      modelName: args.model,
+      timestamp: Math.floor(Date.now() / 1000) - (args.metrics - i) * 3600,
+      owner: deployer.address,
+    };
+    await (
+      await monitor.updateModelMetrics(
+        args.model,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+        `seed-${args.seed}-${i}`,
+        ethers.toUtf8Bytes(JSON.stringify(payload)),
+      )
+    ).wait();
+  }
+  console.log(`Stored ${args.metrics} encrypted metric submissions`);
+
+  if (args.metrics > 0) {
+    await (await monitor.requestModelMetricsDecryption(args.model)).wait();
+    await fhevm.awaitDecryptionOracle();
+    console.log(`Revealed the metric means of ${args.model}`);
+  }
+
+  const network = hre.network.name;
+  if (loadNetworks().networks[network]) {
+    saveNetworkDeployment(
+      network,
+      contracts,
+      deploymentBlocks,
+      deployer.address,
+    );
+    console.log(`Updated ${network} in frontend/web/src/networks.json`);
+  } else {
+    console.warn(
+      `${network} is not in frontend/web/src/networks.json, the frontend will not see this deployment`,
+    );
+  }
+}
+
+task(
+  "seed-local",
+  "Deploys the contracts to a local hardhat node and seeds them with synthetic encrypted data",
+)
+  .addOptionalParam("model", "Model id to register", "demo-classifier")
+  .addOptionalParam(
+    "predictions",
+    "Synthetic predictions to record",
+    42,
+    types.int,
+  )
+  .addOptionalParam(
+    "analyses",
+    "Predictions to run the performance analysis on",
+    5,
+    types.int,
+  )
+  .addOptionalParam(
+    "metrics",
+    "Synthetic metric submissions to store",
+    12,
+    types.int,
+  )
+  .addOptionalParam("seed", "Seed for the synthetic data", 1, types.int)
+  .setAction(seedLocal);
@@ -0,0 +1,1371 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import {
+  AiMonitor_FHE,
+  AiMonitor_FHE__factory,
+  DataStoreMock,
+  MetricRegistry,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const MODEL_ID = "fraud-v1";
+
+async function deployFixture() {
+  const dataStore = (await (
+    await ethers.getContractFactory("DataStoreMock")
+  ).deploy()) as DataStoreMock;
+  const registry = (await (
+    await ethers.getContractFactory("MetricRegistry")
+  ).deploy(await dataStore.getAddress())) as MetricRegistry;
+
+  const libraries: Record<string, string> = {};
+  for (const name of [
+    "AlertEvaluation",
+    "ClassificationMetrics",
+    "DriftDetection",
+    "FairnessMetrics",
+    "ModelMetrics",
+    "PredictionSchema",
+  ]) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  const factory = (await ethers.getContractFactory("AiMonitor_FHE", {
+    libraries,
+  })) as AiMonitor_FHE__factory;
+  const monitor = (await factory.deploy(
+    await registry.getAddress(),
+  )) as AiMonitor_FHE;
+  const monitorAddress = await monitor.getAddress();
+  await (await registry.setWriter(monitorAddress, true)).wait();
+
+  return { monitor, monitorAddress, registry, dataStore };
+}
+
+describe("AiMonitor_FHE", function () {
+  let signers: Signers;
+  let monitor: AiMonitor_FHE;
+  let monitorAddress: string;
+  let registry: MetricRegistry;
+  let dataStore: DataStoreMock;
+  let submissions = 0;
+
+  async function recordPrediction(
+    signer: HardhatEthersSigner,
+    input: number,
+    prediction: number,
+    groundTruth: number,
+    modelId: string = MODEL_ID,
+  ) {
+    const encrypted = await fhevm
+      .createEncryptedInput(monitorAddress, signer.address)
+      .add32(input)
+      .add32(prediction)
+      .add32(groundTruth)
+      .encrypt();
+
+    const tx = await monitor
+      .connect(signer)
+      .recordEncryptedPrediction(
+        modelId,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+      );
+    await tx.wait();
+
+    return await monitor.predictionCount();
+  }
+
+  async function analyze(predictionId: bigint) {
+    const tx = await monitor
+      .connect(signers.alice)
+      .requestPerformanceAnalysis(predictionId);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+
+    return await monitor.getDecryptedAlert(predictionId);
+  }
+
+  async function analyzeAlertOnly(predictionId: bigint) {
+    const tx = await monitor
+      .connect(signers.alice)
+      .requestAlertOnlyAnalysis(predictionId);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+
+    return await monitor.getDecryptedAlert(predictionId);
+  }
+
+  async function updateMetrics(
+    accuracy: number,
+    drift: number,
+    errorRate: number,
+    metricId: string = `metric-${++submissions}`,
+  ) {
+    const encrypted = await fhevm
+      .createEncryptedInput(monitorAddress, signers.alice.address)
+      .add32(accuracy)
+      .add32(drift)
+      .add32(errorRate)
+      .encrypt();
+
+    const tx = await monitor
+      .connect(signers.alice)
+      .updateModelMetrics(
+        MODEL_ID,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+        metricId,
+        ethers.toUtf8Bytes(JSON.stringify({ modelName: MODEL_ID })),
+      );
+    await tx.wait();
+  }
+
+  async function revealMetrics() {
+    const tx = await monitor
+      .connect(signers.alice)
+      .requestModelMetricsDecryption(MODEL_ID);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ monitor, monitorAddress, registry, dataStore } = await deployFixture());
+    await (await monitor.connect(signers.alice).registerModel(MODEL_ID)).wait();
+  });
+
+  describe("model registry", function () {
+    it("assigns the registering account as owner", async function () {
+      expect(await monitor.getModelOwner(MODEL_ID)).to.eq(
+        signers.alice.address,
+      );
+      expect(await monitor.getMonitoredModels()).to.deep.eq([MODEL_ID]);
+    });
+
+    it("rejects registering the same model twice", async function () {
+      await expect(
+        monitor.connect(signers.bob).registerModel(MODEL_ID),
+      ).to.be.revertedWith("Model already registered");
+    });
+
+    it("only lets writers record predictions", async function () {
+      await expect(
+        recordPrediction(signers.bob, 100, 90, 100),
+      ).to.be.revertedWith("Not model writer");
+
+      await (
+        await monitor
+          .connect(signers.alice)
+          .setModelWriter(MODEL_ID, signers.bob.address, true)
+      ).wait();
+      expect(await recordPrediction(signers.bob, 100, 90, 100)).to.eq(1n);
+    });
+
+    it("only lets the owner manage roles", async function () {
+      await expect(
+        monitor
+          .connect(signers.bob)
+          .setModelViewer(MODEL_ID, signers.bob.address, true),
+      ).to.be.revertedWith("Not model owner");
+
+      await (
+        await monitor
+          .connect(signers.alice)
+          .transferModelOwnership(MODEL_ID, signers.bob.address)
+      ).wait();
+      expect(await monitor.getModelOwner(MODEL_ID)).to.eq(signers.bob.address);
+      expect(
+        await monitor.isModelWriter(MODEL_ID, signers.alice.address),
+      ).to.eq(false);
+    });
+  });
+
+  describe("recordEncryptedPrediction", function () {
+    it("stores encrypted values the submitter can decrypt", async function () {
+      const predictionId = await recordPrediction(signers.alice, 120, 95, 100);
+      const stored = await monitor.predictions(predictionId);
+
+      expect(stored.modelId).to.eq(MODEL_ID);
+      const clearPrediction = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.encryptedPrediction,
+        monitorAddress,
+        signers.alice,
+      );
+      expect(clearPrediction).to.eq(95n);
+    });
+
+    it("emits PredictionRecorded and leaves the alert unrevealed", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(1)
+        .add32(2)
+        .add32(3)
+        .encrypt();
+
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .recordEncryptedPrediction(
+            MODEL_ID,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.handles[2],
+            encrypted.inputProof,
+          ),
+      ).to.emit(monitor, "PredictionRecorded");
+
+      const alert = await monitor.getDecryptedAlert(1);
+      expect(alert.isRevealed).to.eq(false);
+    });
+  });
+
+  describe("recordEncryptedPredictionBatch", function () {
+    async function encryptBatch(rows: [number, number, number][]) {
+      const input = fhevm.createEncryptedInput(
+        monitorAddress,
+        signers.alice.address,
+      );
+      for (const row of rows) input.add32(row[0]).add32(row[1]).add32(row[2]);
+      const encrypted = await input.encrypt();
+      const column = (offset: number) =>
+        rows.map((_, i) => encrypted.handles[i * 3 + offset]);
+
+      return {
+        inputs: column(0),
+        predictions: column(1),
+        groundTruths: column(2),
+        inputProof: encrypted.inputProof,
+      };
+    }
+
+    it("stores every prediction under a single proof", async function () {
+      const batch = await encryptBatch([
+        [100, 90, 100],
+        [100, 40, 100],
+        [100, 100, 100],
+      ]);
+      const modelHash = ethers.keccak256(ethers.toUtf8Bytes(MODEL_ID));
+
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .recordEncryptedPredictionBatch(
+            MODEL_ID,
+            batch.inputs,
+            batch.predictions,
+            batch.groundTruths,
+            batch.inputProof,
+          ),
+      )
+        .to.emit(monitor, "PredictionBatchRecorded")
+        .withArgs(modelHash, MODEL_ID, 1n, 3n)
+        .and.to.emit(monitor, "PredictionRecorded");
+
+      expect(await monitor.predictionCount()).to.eq(3n);
+      expect((await monitor.predictions(3)).modelId).to.eq(MODEL_ID);
+      expect((await analyze(2n)).score).to.eq(40n);
+      expect(await monitor.getModelIdByHash(modelHash)).to.eq(MODEL_ID);
+    });
+
+    it("hits the HCU limit on full batches once drift and classification are on", async function () {
+      await (
+        await monitor.connect(signers.alice).enableClassification(MODEL_ID)
+      ).wait();
+      await (
+        await monitor.connect(signers.alice).configureDrift(MODEL_ID, 10, 5, 10)
+      ).wait();
+      // The frontend splits a batch when its estimate reverts with this error
+      const hcuLimit = new ethers.Contract(ethers.ZeroAddress, [
+        "error HCUTransactionLimitExceeded()",
+      ]);
+      const record = async (size: number) => {
+        const batch = await encryptBatch(
+          Array.from({ length: size }, (): [number, number, number] => [
+            100, 90, 100,
+          ]),
+        );
+        return monitor
+          .connect(signers.alice)
+          .recordEncryptedPredictionBatch(
+            MODEL_ID,
+            batch.inputs,
+            batch.predictions,
+            batch.groundTruths,
+            batch.inputProof,
+          );
+      };
+
+      await expect(record(21)).to.be.revertedWithCustomError(
+        hcuLimit,
+        "HCUTransactionLimitExceeded",
+      );
+      await expect(record(5)).to.emit(monitor, "PredictionBatchRecorded");
+      expect(await monitor.predictionCount()).to.eq(5n);
+      expect((await monitor.getDriftStatus(MODEL_ID)).referenceCount).to.eq(5n);
+    });
+
+    it("filters PredictionRecorded by the indexed model hash", async function () {
+      await (await monitor.connect(signers.bob).registerModel("other")).wait();
+      await recordPrediction(signers.alice, 1, 1, 1);
+      await recordPrediction(signers.bob, 2, 2, 2, "other");
+      await recordPrediction(signers.alice, 3, 3, 3);
+
+      const events = await monitor.queryFilter(
+        monitor.filters.PredictionRecorded(
+          undefined,
+          ethers.keccak256(ethers.toUtf8Bytes(MODEL_ID)),
+        ),
+      );
+      expect(events.map((e) => e.args.id)).to.deep.eq([1n, 3n]);
+    });
+
+    it("rejects empty, mismatched and unauthorized batches", async function () {
+      const batch = await encryptBatch([
+        [1, 2, 3],
+        [4, 5, 6],
+      ]);
+      const record = (
+        signer: HardhatEthersSigner,
+        predictions: string[] = batch.predictions.map((h) => ethers.hexlify(h)),
+        inputs: string[] = batch.inputs.map((h) => ethers.hexlify(h)),
+      ) =>
+        monitor
+          .connect(signer)
+          .recordEncryptedPredictionBatch(
+            MODEL_ID,
+            inputs,
+            predictions,
+            batch.groundTruths,
+            batch.inputProof,
+          );
+
+      await expect(record(signers.alice, [], [])).to.be.revertedWith(
+        "Empty batch",
+      );
+      await expect(
+        record(signers.alice, [ethers.hexlify(batch.predictions[0])]),
+      ).to.be.revertedWith("Batch length mismatch");
+      await expect(record(signers.bob)).to.be.revertedWith("Not model writer");
+    });
+  });
+
+  describe("vector predictions", function () {
+    async function encryptVector(
+      features: number[],
+      outputs: number[],
+      groundTruth: number[],
+    ) {
+      const input = fhevm.createEncryptedInput(
+        monitorAddress,
+        signers.alice.address,
+      );
+      for (const value of [...features, ...outputs, ...groundTruth])
+        input.add32(value);
+      const encrypted = await input.encrypt();
+      const outputStart = features.length;
+      const labelStart = outputStart + outputs.length;
+
+      return {
+        features: encrypted.handles.slice(0, outputStart),
+        outputs: encrypted.handles.slice(outputStart, labelStart),
+        groundTruth: encrypted.handles.slice(labelStart),
+        inputProof: encrypted.inputProof,
+      };
+    }
+
+    async function recordVector(
+      features: number[],
+      outputs: number[],
+      groundTruth: number[],
+    ) {
+      const vector = await encryptVector(features, outputs, groundTruth);
+      return monitor
+        .connect(signers.alice)
+        .recordEncryptedPredictionVector(
+          MODEL_ID,
+          vector.features,
+          vector.outputs,
+          vector.groundTruth,
+          [],
+          vector.inputProof,
+        );
+    }
+
+    it("declares the schema on the model", async function () {
+      await expect(
+        monitor.connect(signers.alice).configureModelSchema(MODEL_ID, 3, 2),
+      )
+        .to.emit(monitor, "ModelSchemaConfigured")
+        .withArgs(MODEL_ID, 3, 2);
+
+      const schema = await monitor.getModelSchema(MODEL_ID);
+      expect(schema.featureCount).to.eq(3n);
+      expect(schema.outputArity).to.eq(2n);
+
+      await expect(
+        monitor.connect(signers.bob).configureModelSchema(MODEL_ID, 3, 2),
+      ).to.be.revertedWith("Not model owner");
+      await expect(
+        monitor.connect(signers.alice).configureModelSchema(MODEL_ID, 0, 2),
+      ).to.be.revertedWith("Invalid schema");
+      await expect(
+        monitor.connect(signers.alice).configureModelSchema(MODEL_ID, 40, 24),
+      ).to.be.revertedWith("Invalid schema");
+    });
+
+    it("stores every feature and output handle", async function () {
+      await (
+        await monitor
+          .connect(signers.alice)
+          .configureModelSchema(MODEL_ID, 3, 2)
+      ).wait();
+      await (await recordVector([100, 7, 42], [80, 1], [100])).wait();
+
+      const [features, outputs] = await monitor.getPredictionVectors(1);
+      expect(features).to.have.length(3);
+      expect(outputs).to.have.length(2);
+
+      const decrypted = [];
+      for (const handle of [...features, ...outputs]) {
+        decrypted.push(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            handle,
+            monitorAddress,
+            signers.alice,
+          ),
+        );
+      }
+      expect(decrypted).to.deep.eq([100n, 7n, 42n, 80n, 1n]);
+
+      // The first feature and output feed the single-value analytics
+      expect((await analyze(1n)).score).to.eq(80n);
+    });
+
+    it("leaves the label pending without ground truth", async function () {
+      await (
+        await monitor
+          .connect(signers.alice)
+          .configureModelSchema(MODEL_ID, 2, 1)
+      ).wait();
+      await (await recordVector([10, 20], [30], [])).wait();
+
+      expect((await monitor.predictions(1)).labelPending).to.eq(true);
+    });
+
+    it("rejects predictions that do not match the schema", async function () {
+      await expect(recordVector([1, 2], [3], [4])).to.be.revertedWith(
+        "Schema not configured",
+      );
+
+      await (
+        await monitor
+          .connect(signers.alice)
+          .configureModelSchema(MODEL_ID, 2, 1)
+      ).wait();
+      await expect(recordVector([1, 2, 3], [4], [5])).to.be.revertedWith(
+        "Schema mismatch",
+      );
+      await expect(recordVector([1, 2], [3, 4], [5])).to.be.revertedWith(
+        "Schema mismatch",
+      );
+      await expect(recordVector([1, 2], [3], [4, 5])).to.be.revertedWith(
+        "Schema mismatch",
+      );
+    });
+  });
+
+  describe("delayed ground truth", function () {
+    async function recordUnlabeled(input: number, prediction: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(input)
+        .add32(prediction)
+        .encrypt();
+
+      await (
+        await monitor
+          .connect(signers.alice)
+          .recordUnlabeledPrediction(
+            MODEL_ID,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          )
+      ).wait();
+
+      return await monitor.predictionCount();
+    }
+
+    async function attachLabel(
+      signer: HardhatEthersSigner,
+      predictionId: bigint,
+      groundTruth: number,
+    ) {
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signer.address)
+        .add32(groundTruth)
+        .encrypt();
+
+      return monitor
+        .connect(signer)
+        .attachEncryptedGroundTruth(
+          predictionId,
+          encrypted.handles[0],
+          encrypted.inputProof,
+        );
+    }
+
+    it("flags unlabeled predictions in PredictionRecorded", async function () {
+      await recordPrediction(signers.alice, 1, 1, 1);
+      const predictionId = await recordUnlabeled(100, 90);
+
+      const events = await monitor.queryFilter(
+        monitor.filters.PredictionRecorded(),
+      );
+      expect(events.map((e) => [e.args.id, e.args.labelPending])).to.deep.eq([
+        [1n, false],
+        [predictionId, true],
+      ]);
+    });
+
+    it("records predictions as pending until a label is attached", async function () {
+      const predictionId = await recordUnlabeled(100, 90);
+      expect((await monitor.predictions(predictionId)).labelPending).to.eq(
+        true,
+      );
+
+      await expect(attachLabel(signers.alice, predictionId, 100)).to.emit(
+        monitor,
+        "GroundTruthAttached",
+      );
+      expect((await monitor.predictions(predictionId)).labelPending).to.eq(
+        false,
+      );
+
+      const alert = await analyze(predictionId);
+      expect(alert.score).to.eq(90n);
+    });
+
+    it("refuses to analyze predictions without a label", async function () {
+      const predictionId = await recordUnlabeled(100, 90);
+
+      await expect(
+        monitor.connect(signers.alice).requestPerformanceAnalysis(predictionId),
+      ).to.be.revertedWith("Label pending");
+      await expect(
+        monitor.connect(signers.alice).requestAlertOnlyAnalysis(predictionId),
+      ).to.be.revertedWith("Label pending");
+    });
+
+    it("attaches a label only once and only from a writer", async function () {
+      const predictionId = await recordUnlabeled(100, 90);
+
+      await expect(
+        attachLabel(signers.bob, predictionId, 100),
+      ).to.be.revertedWith("Not model writer");
+
+      await (await attachLabel(signers.alice, predictionId, 100)).wait();
+      await expect(
+        attachLabel(signers.alice, predictionId, 50),
+      ).to.be.revertedWith("Label already attached");
+
+      const labelled = await recordPrediction(signers.alice, 1, 1, 1);
+      await expect(attachLabel(signers.alice, labelled, 1)).to.be.revertedWith(
+        "Label already attached",
+      );
+    });
+  });
+
+  describe("performance analysis", function () {
+    it("decrypts the prediction and stores the computed alert", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 90, 100);
+      const alert = await analyze(predictionId);
+
+      expect(alert.isRevealed).to.eq(true);
+      expect(alert.score).to.eq(90n);
+      expect(alert.alert).to.eq("Normal");
+      expect(alert.retraining).to.eq(false);
+    });
+
+    it("maps scores to alert levels", async function () {
+      const cases: [number, string, boolean][] = [
+        [40, "Critical", true],
+        [55, "Warning", true],
+        [65, "Warning", false],
+        [80, "Notice", false],
+        [85, "Normal", false],
+      ];
+
+      for (const [score, level, retraining] of cases) {
+        const predictionId = await recordPrediction(
+          signers.alice,
+          100,
+          score,
+          100,
+        );
+        const alert = await analyze(predictionId);
+
+        expect(alert.score).to.eq(BigInt(score));
+        expect(alert.alert).to.eq(level);
+        expect(alert.retraining).to.eq(retraining);
+      }
+    });
+
+    it("treats a zero input as a divisor of one", async function () {
+      const exact = await analyze(
+        await recordPrediction(signers.alice, 0, 7, 7),
+      );
+      expect(exact.score).to.eq(100n);
+
+      const offByOne = await analyze(
+        await recordPrediction(signers.alice, 0, 8, 7),
+      );
+      expect(offByOne.score).to.eq(0n);
+      expect(offByOne.alert).to.eq("Critical");
+    });
+
+    it("floors the score at zero when the error exceeds the input", async function () {
+      const alert = await analyze(
+        await recordPrediction(signers.alice, 10, 50, 10),
+      );
+
+      expect(alert.isRevealed).to.eq(true);
+      expect(alert.score).to.eq(0n);
+      expect(alert.retraining).to.eq(true);
+    });
+
+    it("rejects analysis requests from accounts without the viewer role", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 90, 100);
+
+      await expect(
+        monitor.connect(signers.bob).requestPerformanceAnalysis(predictionId),
+      ).to.be.revertedWith("Not model viewer");
+    });
+  });
+
+  describe("alert-only analysis", function () {
+    it("reveals the same level as the cleartext path but not the score", async function () {
+      const cases: [number, number, number][] = [
+        [100, 90, 100],
+        [100, 85, 100],
+        [100, 84, 100],
+        [100, 70, 100],
+        [100, 69, 100],
+        [100, 60, 100],
+        [100, 59, 100],
+        [100, 50, 100],
+        [100, 49, 100],
+        [7, 3, 4],
+        [0, 7, 7],
+        [0, 8, 7],
+        [10, 50, 10],
+      ];
+
+      for (const [input, prediction, groundTruth] of cases) {
+        const expected = await analyze(
+          await recordPrediction(signers.alice, input, prediction, groundTruth),
+        );
+        const alert = await analyzeAlertOnly(
+          await recordPrediction(signers.alice, input, prediction, groundTruth),
+        );
+
+        expect(alert.isRevealed).to.eq(true);
+        expect(alert.alertOnly).to.eq(true);
+        expect(alert.score).to.eq(0n);
+        expect(alert.alert).to.eq(expected.alert);
+        expect(alert.retraining).to.eq(expected.retraining);
+      }
+    });
+
+    it("uses the model's own thresholds", async function () {
+      await (
+        await monitor.connect(signers.alice).setAlertThresholds(MODEL_ID, {
+          criticalScore: 0,
+          warningScore: 90,
+          noticeScore: 95,
+          retrainingScore: 0,
+          lossWarning: 0,
+          lossCritical: 0,
+        })
+      ).wait();
+
+      const alert = await analyzeAlertOnly(
+        await recordPrediction(signers.alice, 10, 50, 10),
+      );
+      expect(alert.alert).to.eq("Warning");
+      expect(alert.retraining).to.eq(false);
+    });
+
+    it("lets the requester decrypt the encrypted alert level", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 65, 100);
+      await analyzeAlertOnly(predictionId);
+
+      const encrypted = await monitor.getEncryptedAlert(predictionId);
+      const level = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        encrypted.level,
+        monitorAddress,
+        signers.alice,
+      );
+      const retraining = await fhevm.userDecryptEbool(
+        encrypted.needsRetraining,
+        monitorAddress,
+        signers.alice,
+      );
+      expect(level).to.eq(2n);
+      expect(retraining).to.eq(false);
+    });
+
+    it("rejects non-viewers and already analyzed predictions", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 90, 100);
+
+      await expect(
+        monitor.connect(signers.bob).requestAlertOnlyAnalysis(predictionId),
+      ).to.be.revertedWith("Not model viewer");
+
+      await analyze(predictionId);
+      await expect(
+        monitor.connect(signers.alice).requestAlertOnlyAnalysis(predictionId),
+      ).to.be.revertedWith("Already analyzed");
+    });
+
+    it("rejects a second request while one is pending on either path", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 90, 100);
+
+      await (
+        await monitor
+          .connect(signers.alice)
+          .requestPerformanceAnalysis(predictionId)
+      ).wait();
+      await expect(
+        monitor.connect(signers.alice).requestPerformanceAnalysis(predictionId),
+      ).to.be.revertedWith("Analysis pending");
+      await expect(
+        monitor.connect(signers.alice).requestAlertOnlyAnalysis(predictionId),
+      ).to.be.revertedWith("Analysis pending");
+
+      await fhevm.awaitDecryptionOracle();
+      const alert = await monitor.getDecryptedAlert(predictionId);
+      expect(alert.isRevealed).to.eq(true);
+      expect(alert.alertOnly).to.eq(false);
+    });
+  });
+
+  describe("alert thresholds", function () {
+    const thresholds = {
+      criticalScore: 80,
+      warningScore: 90,
+      noticeScore: 95,
+      retrainingScore: 92,
+      lossWarning: 1000,
+      lossCritical: 2000,
+    };
+
+    it("starts every model with the default cut-offs", async function () {
+      const defaults = await monitor.getAlertThresholds(MODEL_ID);
+
+      expect(defaults.criticalScore).to.eq(50n);
+      expect(defaults.warningScore).to.eq(70n);
+      expect(defaults.noticeScore).to.eq(85n);
+      expect(defaults.retrainingScore).to.eq(60n);
+    });
+
+    it("classifies alerts with the model's own thresholds", async function () {
+      await (
+        await monitor
+          .connect(signers.alice)
+          .setAlertThresholds(MODEL_ID, thresholds)
+      ).wait();
+
+      const alert = await analyze(
+        await recordPrediction(signers.alice, 100, 90, 100),
+      );
+      expect(alert.score).to.eq(90n);
+      expect(alert.alert).to.eq("Notice");
+      expect(alert.retraining).to.eq(true);
+    });
+
+    it("rejects unordered thresholds and non-owners", async function () {
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .setAlertThresholds(MODEL_ID, { ...thresholds, criticalScore: 91 }),
+      ).to.be.revertedWith("Invalid score thresholds");
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .setAlertThresholds(MODEL_ID, { ...thresholds, lossWarning: 3000 }),
+      ).to.be.revertedWith("Invalid loss thresholds");
+      await expect(
+        monitor.connect(signers.bob).setAlertThresholds(MODEL_ID, thresholds),
+      ).to.be.revertedWith("Not model owner");
+    });
+  });
+
+  describe("model metrics", function () {
+    it("stores the decrypted aggregate and emits ModelMetricsDecrypted", async function () {
+      await updateMetrics(90, 5, 10);
+
+      const tx = await monitor
+        .connect(signers.alice)
+        .requestModelMetricsDecryption(MODEL_ID);
+      await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const filter = monitor.filters.ModelMetricsDecrypted();
+      const [event] = await monitor.queryFilter(filter);
+      expect(event.args.modelId).to.eq(MODEL_ID);
+      expect(event.args.accuracy).to.eq(90n);
+
+      const latest = await monitor.getLatestRevealedMetrics(MODEL_ID);
+      expect(latest.accuracy).to.eq(90n);
+      expect(latest.driftScore).to.eq(5n);
+      expect(latest.errorRate).to.eq(10n);
+      expect(latest.sampleCount).to.eq(1n);
+      expect(latest.timestamp).to.be.gt(0n);
+    });
+
+    it("keeps every reveal in the history", async function () {
+      await updateMetrics(90, 5, 10);
+      await revealMetrics();
+      await updateMetrics(80, 3, 20);
+      await revealMetrics();
+
+      expect(await monitor.getRevealedMetricsCount(MODEL_ID)).to.eq(2n);
+      expect((await monitor.getRevealedMetrics(MODEL_ID, 0)).accuracy).to.eq(
+        90n,
+      );
+      const latest = await monitor.getLatestRevealedMetrics(MODEL_ID);
+      expect(latest.accuracy).to.eq(85n);
+      expect(latest.driftScore).to.eq(4n);
+      expect(latest.errorRate).to.eq(15n);
+      expect(latest.sampleCount).to.eq(2n);
+    });
+
+    it("averages samples that would overflow a 32-bit sum", async function () {
+      const max = 0xffffffff;
+      await updateMetrics(max, max, 0);
+      await updateMetrics(max, max - 2, 0);
+      await revealMetrics();
+
+      const latest = await monitor.getLatestRevealedMetrics(MODEL_ID);
+      expect(latest.accuracy).to.eq(BigInt(max));
+      expect(latest.driftScore).to.eq(BigInt(max - 1));
+      expect(latest.errorRate).to.eq(0n);
+    });
+
+    it("reports zero means before any samples arrive", async function () {
+      await revealMetrics();
+
+      const latest = await monitor.getLatestRevealedMetrics(MODEL_ID);
+      expect(latest.accuracy).to.eq(0n);
+      expect(latest.sampleCount).to.eq(0n);
+    });
+
+    it("lists each submission in the registry in the same transaction", async function () {
+      await updateMetrics(90, 5, 10, "a");
+
+      expect(await registry.getItems("metrics", 0, 10)).to.deep.eq(["a"]);
+      expect(ethers.toUtf8String(await dataStore.getData("metric_a"))).to.eq(
+        JSON.stringify({ modelName: MODEL_ID }),
+      );
+    });
+
+    it("leaves the sums untouched when the listing is rejected", async function () {
+      await updateMetrics(90, 5, 10, "a");
+
+      await expect(updateMetrics(10, 5, 10, "a")).to.be.revertedWith(
+        "Payload already stored",
+      );
+      await revealMetrics();
+      const latest = await monitor.getLatestRevealedMetrics(MODEL_ID);
+      expect(latest.accuracy).to.eq(90n);
+      expect(latest.sampleCount).to.eq(1n);
+    });
+
+    it("reverts when nothing has been revealed yet", async function () {
+      await expect(
+        monitor.getLatestRevealedMetrics(MODEL_ID),
+      ).to.be.revertedWith("No revealed metrics");
+    });
+
+    it("records the fixed-point scales per model", async function () {
+      const defaults = await monitor.getMetricScales(MODEL_ID);
+      expect(defaults.accuracyScale).to.eq(100n);
+      expect(defaults.lossScale).to.eq(10000n);
+
+      await expect(
+        monitor.connect(signers.alice).setMetricScales(MODEL_ID, 1000, 1000000),
+      )
+        .to.emit(monitor, "MetricScalesUpdated")
+        .withArgs(MODEL_ID, 1000, 1000000);
+      expect((await monitor.getMetricScales(MODEL_ID)).lossScale).to.eq(
+        1000000n,
+      );
+
+      await expect(
+        monitor.connect(signers.alice).setMetricScales(MODEL_ID, 0, 100),
+      ).to.be.revertedWith("Invalid metric scales");
+      await expect(
+        monitor.connect(signers.bob).setMetricScales(MODEL_ID, 10, 100),
+      ).to.be.revertedWith("Not model owner");
+    });
+  });
+
+  describe("classification metrics", function () {
+    async function revealConfusionMatrix() {
+      await (
+        await monitor
+          .connect(signers.alice)
+          .requestConfusionMatrixDecryption(MODEL_ID)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    beforeEach(async function () {
+      await (
+        await monitor.connect(signers.alice).enableClassification(MODEL_ID)
+      ).wait();
+    });
+
+    it("counts predictions into an encrypted confusion matrix", async function () {
+      // [prediction, label]: 2 TP, 1 FP, 3 TN, 1 FN
+      const samples = [
+        [1, 1],
+        [1, 1],
+        [1, 0],
+        [0, 0],
+        [0, 0],
+        [0, 0],
+        [0, 1],
+      ];
+      for (const [prediction, label] of samples) {
+        await recordPrediction(signers.alice, 1, prediction, label);
+      }
+      await revealConfusionMatrix();
+
+      const matrix = await monitor.getConfusionMatrix(MODEL_ID);
+      expect(matrix.isRevealed).to.eq(true);
+      expect([
+        matrix.truePositives,
+        matrix.falsePositives,
+        matrix.trueNegatives,
+        matrix.falseNegatives,
+      ]).to.deep.eq([2n, 1n, 3n, 1n]);
+
+      const metrics = await monitor.getClassificationMetrics(MODEL_ID);
+      expect(metrics.precision).to.eq(6666n);
+      expect(metrics.recall).to.eq(6666n);
+      expect(metrics.f1).to.eq(6666n);
+      expect(metrics.accuracy).to.eq(7142n);
+    });
+
+    it("counts delayed labels when they are attached", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(1)
+        .add32(1)
+        .encrypt();
+      await (
+        await monitor
+          .connect(signers.alice)
+          .recordUnlabeledPrediction(
+            MODEL_ID,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          )
+      ).wait();
+
+      const label = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await (
+        await monitor
+          .connect(signers.alice)
+          .attachEncryptedGroundTruth(1, label.handles[0], label.inputProof)
+      ).wait();
+      await revealConfusionMatrix();
+
+      expect((await monitor.getConfusionMatrix(MODEL_ID)).truePositives).to.eq(
+        1n,
+      );
+    });
+
+    it("returns zero ratios for empty denominators", async function () {
+      await recordPrediction(signers.alice, 1, 0, 0);
+      await revealConfusionMatrix();
+
+      const metrics = await monitor.getClassificationMetrics(MODEL_ID);
+      expect(metrics.precision).to.eq(0n);
+      expect(metrics.recall).to.eq(0n);
+      expect(metrics.accuracy).to.eq(10000n);
+    });
+
+    it("requires classification mode and a reveal", async function () {
+      await expect(
+        monitor.getClassificationMetrics(MODEL_ID),
+      ).to.be.revertedWith("No revealed confusion matrix");
+      await expect(
+        monitor.connect(signers.alice).enableClassification(MODEL_ID),
+      ).to.be.revertedWith("Classification already enabled");
+
+      await (await monitor.connect(signers.bob).registerModel("other")).wait();
+      await expect(
+        monitor.connect(signers.bob).requestConfusionMatrixDecryption("other"),
+      ).to.be.revertedWith("Not a classification model");
+      await expect(
+        monitor.connect(signers.bob).enableClassification(MODEL_ID),
+      ).to.be.revertedWith("Not model owner");
+    });
+  });
+
+  describe("fairness monitoring", function () {
+    const config = {
+      segmentCount: 2,
+      parityThreshold: 2000,
+      opportunityThreshold: 2000,
+      accuracyThreshold: 2000,
+    };
+
+    async function recordSegmented(
+      prediction: number,
+      label: number,
+      segment: number,
+    ) {
+      const predictionId = await recordPrediction(
+        signers.alice,
+        1,
+        prediction,
+        label,
+      );
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add8(segment)
+        .encrypt();
+      await (
+        await monitor
+          .connect(signers.alice)
+          .assignEncryptedSegment(
+            predictionId,
+            encrypted.handles[0],
+            encrypted.inputProof,
+          )
+      ).wait();
+
+      return predictionId;
+    }
+
+    async function evaluateFairness(segment: number = 1) {
+      await (
+        await monitor
+          .connect(signers.alice)
+          .requestFairnessEvaluation(MODEL_ID, segment)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      return await monitor.getFairnessReveal(MODEL_ID, segment);
+    }
+
+    beforeEach(async function () {
+      await (
+        await monitor.connect(signers.alice).configureFairness(MODEL_ID, config)
+      ).wait();
+    });
+
+    it("reports no gaps when segments behave alike", async function () {
+      for (const segment of [0, 1]) {
+        await recordSegmented(1, 1, segment);
+        await recordSegmented(0, 0, segment);
+      }
+
+      const reveal = await evaluateFairness();
+      expect(reveal.isRevealed).to.eq(true);
+      expect(reveal.parityGapExceeded).to.eq(false);
+      expect(reveal.opportunityGapExceeded).to.eq(false);
+      expect(reveal.accuracyGapExceeded).to.eq(false);
+    });
+
+    it("flags parity and opportunity gaps without revealing per-segment rates", async function () {
+      // Segment 0 is approved whenever the label is positive; segment 1 never is
+      await recordSegmented(1, 1, 0);
+      await recordSegmented(0, 0, 0);
+      await recordSegmented(0, 1, 1);
+      await recordSegmented(0, 0, 1);
+
+      const reveal = await evaluateFairness();
+      expect(reveal.parityGapExceeded).to.eq(true);
+      expect(reveal.opportunityGapExceeded).to.eq(true);
+      expect(reveal.accuracyGapExceeded).to.eq(true);
+    });
+
+    it("counts segmented predictions once their delayed label arrives", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(1)
+        .add32(0)
+        .add8(1)
+        .encrypt();
+      await (
+        await monitor
+          .connect(signers.alice)
+          .recordUnlabeledPrediction(
+            MODEL_ID,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+          )
+      ).wait();
+      await (
+        await monitor
+          .connect(signers.alice)
+          .assignEncryptedSegment(1, encrypted.handles[2], encrypted.inputProof)
+      ).wait();
+      await recordSegmented(0, 0, 0);
+
+      expect((await evaluateFairness()).accuracyGapExceeded).to.eq(false);
+
+      const label = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await (
+        await monitor
+          .connect(signers.alice)
+          .attachEncryptedGroundTruth(1, label.handles[0], label.inputProof)
+      ).wait();
+
+      expect((await evaluateFairness()).accuracyGapExceeded).to.eq(true);
+    });
+
+    it("assigns the segment of a vector prediction from the same input", async function () {
+      await (
+        await monitor
+          .connect(signers.alice)
+          .configureModelSchema(MODEL_ID, 1, 1)
+      ).wait();
+
+      // Segment 0 is always right and segment 1 always wrong
+      for (const [prediction, segment] of [
+        [1, 0],
+        [0, 1],
+      ]) {
+        const encrypted = await fhevm
+          .createEncryptedInput(monitorAddress, signers.alice.address)
+          .add32(1)
+          .add32(prediction)
+          .add32(1)
+          .add8(segment)
+          .encrypt();
+        const [feature, output, label, segmentHandle] = encrypted.handles;
+        await expect(
+          monitor
+            .connect(signers.alice)
+            .recordEncryptedPredictionVector(
+              MODEL_ID,
+              [feature],
+              [output],
+              [label],
+              [segmentHandle],
+              encrypted.inputProof,
+            ),
+        ).to.emit(monitor, "SegmentAssigned");
+      }
+
+      expect((await evaluateFairness()).accuracyGapExceeded).to.eq(true);
+
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add32(1)
+        .add32(1)
+        .add8(0)
+        .add8(1)
+        .encrypt();
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .recordEncryptedPredictionVector(
+            MODEL_ID,
+            [encrypted.handles[0]],
+            [encrypted.handles[1]],
+            [],
+            [encrypted.handles[2], encrypted.handles[3]],
+            encrypted.inputProof,
+          ),
+      ).to.be.revertedWith("Schema mismatch");
+    });
+
+    it("validates configuration and segment assignment", async function () {
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .configureFairness(MODEL_ID, { ...config, segmentCount: 5 }),
+      ).to.be.revertedWith("Invalid segment count");
+      await expect(
+        monitor.connect(signers.bob).configureFairness(MODEL_ID, config),
+      ).to.be.revertedWith("Not model owner");
+      await expect(
+        monitor.connect(signers.alice).requestFairnessEvaluation(MODEL_ID, 0),
+      ).to.be.revertedWith("Invalid segment");
+
+      const predictionId = await recordSegmented(1, 1, 0);
+      const encrypted = await fhevm
+        .createEncryptedInput(monitorAddress, signers.alice.address)
+        .add8(1)
+        .encrypt();
+      await expect(
+        monitor
+          .connect(signers.alice)
+          .assignEncryptedSegment(
+            predictionId,
+            encrypted.handles[0],
+            encrypted.inputProof,
+          ),
+      ).to.be.revertedWith("Segment already assigned");
+    });
+  });
+
+  describe("drift detection", function () {
+    async function recordInputs(inputs: number[]) {
+      for (const input of inputs) {
+        await recordPrediction(signers.alice, input, 0, 0);
+      }
+    }
+
+    async function revealDrift() {
+      const tx = await monitor
+        .connect(signers.alice)
+        .requestDriftDecryption(MODEL_ID);
+      await tx.wait();
+      await fhevm.awaitDecryptionOracle();
+
+      return await monitor.getDriftReveal(MODEL_ID);
+    }
+
+    beforeEach(async function () {
+      await (
+        await monitor.connect(signers.alice).configureDrift(MODEL_ID, 2, 5, 10)
+      ).wait();
+    });
+
+    it("fills the reference window before evaluating", async function () {
+      await recordInputs([10, 10, 10]);
+
+      const status = await monitor.getDriftStatus(MODEL_ID);
+      expect(status.referenceCount).to.eq(2n);
+      expect(status.currentCount).to.eq(1n);
+      expect(status.evaluations).to.eq(0n);
+      await expect(
+        monitor.connect(signers.alice).requestDriftDecryption(MODEL_ID),
+      ).to.be.revertedWith("No drift evaluation");
+    });
+
+    it("does not flag a stable input distribution", async function () {
+      await recordInputs([10, 12, 11, 11]);
+
+      const reveal = await revealDrift();
+      expect(reveal.isRevealed).to.eq(true);
+      expect(reveal.evaluation).to.eq(1n);
+      expect(reveal.drifted).to.eq(false);
+    });
+
+    it("flags a shift in the mean", async function () {
+      await recordInputs([10, 10, 50, 50]);
+
+      expect((await revealDrift()).drifted).to.eq(true);
+    });
+
+    it("flags a change in variance with an unchanged mean", async function () {
+      await recordInputs([10, 10, 0, 20]);
+
+      expect((await revealDrift()).drifted).to.eq(true);
+    });
+
+    it("lets the model owner decrypt the drift flag privately", async function () {
+      await recordInputs([10, 10, 50, 50]);
+
+      const status = await monitor.getDriftStatus(MODEL_ID);
+      const drifted = await fhevm.userDecryptEbool(
+        status.encryptedDriftFlag,
+        monitorAddress,
+        signers.alice,
+      );
+      expect(drifted).to.eq(true);
+    });
+
+    it("only lets the owner configure drift detection", async function () {
+      await expect(
+        monitor.connect(signers.bob).configureDrift(MODEL_ID, 10, 1, 1),
+      ).to.be.revertedWith("Not model owner");
+      await expect(
+        monitor.connect(signers.alice).configureDrift(MODEL_ID, 0, 1, 1),
+      ).to.be.revertedWith("Invalid window size");
+    });
+  });
+
+  describe("replay protection", function () {
+    it("refuses to analyze a revealed prediction again", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 90, 100);
+      await analyze(predictionId);
+
+      await expect(
+        monitor.connect(signers.alice).requestPerformanceAnalysis(predictionId),
+      ).to.be.revertedWith("Already analyzed");
+    });
+
+    it("refuses to process a fulfilled request twice", async function () {
+      const predictionId = await recordPrediction(signers.alice, 100, 90, 100);
+      const receipt = await (
+        await monitor
+          .connect(signers.alice)
+          .requestPerformanceAnalysis(predictionId)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32", "uint32", "uint32"],
+        [100, 100, 100],
+      );
+
+      await expect(
+        monitor.processPerformanceAnalysis(request.requestID, cleartexts, "0x"),
+      ).to.be.revertedWith("Already processed");
+      expect((await monitor.getDecryptedAlert(predictionId)).score).to.eq(90n);
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(
+        monitor.processPerformanceAnalysis(999, "0x", "0x"),
+      ).to.be.revertedWith("Invalid request");
+    });
+  });
+});
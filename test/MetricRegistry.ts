@@ -0,0 +1,156 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  DataStoreMock,
+  MetricRegistry,
+  MetricRegistry__factory,
+} from "../types";
+
+const COLLECTION = "metrics";
+
+describe("MetricRegistry", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let registry: MetricRegistry;
+  let dataStore: DataStoreMock;
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    dataStore = (await (
+      await ethers.getContractFactory("DataStoreMock")
+    ).deploy()) as DataStoreMock;
+    const factory = (await ethers.getContractFactory(
+      "MetricRegistry",
+    )) as MetricRegistry__factory;
+    registry = (await factory.deploy(
+      await dataStore.getAddress(),
+    )) as MetricRegistry;
+  });
+
+  it("keeps concurrent appends from different senders", async function () {
+    await (await registry.setWriter(alice.address, true)).wait();
+    await (await registry.setWriter(bob.address, true)).wait();
+    await expect(registry.connect(alice).append(COLLECTION, "a"))
+      .to.emit(registry, "ItemAppended")
+      .withArgs(COLLECTION, 0n, "a", alice.address);
+    await (await registry.connect(bob).append(COLLECTION, "b")).wait();
+
+    expect(await registry.count(COLLECTION)).to.eq(2n);
+    expect(await registry.getItems(COLLECTION, 0, 10)).to.deep.eq(["a", "b"]);
+    expect(await registry.isListed(COLLECTION, "b")).to.eq(true);
+    expect(await registry.count("other")).to.eq(0n);
+  });
+
+  it("pages through items in append order", async function () {
+    await (
+      await registry.appendBatch(COLLECTION, ["a", "b", "c", "d", "e"])
+    ).wait();
+
+    expect(await registry.getItems(COLLECTION, 0, 2)).to.deep.eq(["a", "b"]);
+    expect(await registry.getItems(COLLECTION, 4, 2)).to.deep.eq(["e"]);
+    expect(await registry.getItems(COLLECTION, 5, 2)).to.deep.eq([]);
+    await expect(registry.getItems(COLLECTION, 0, 101)).to.be.revertedWith(
+      "Page too large",
+    );
+  });
+
+  it("rejects duplicates and empty items", async function () {
+    await (await registry.append(COLLECTION, "a")).wait();
+
+    await expect(registry.append(COLLECTION, "a")).to.be.revertedWith(
+      "Item already listed",
+    );
+    await expect(registry.append(COLLECTION, "")).to.be.revertedWith(
+      "Empty item",
+    );
+  });
+
+  it("skips already listed items in batches so migrations can be re-run", async function () {
+    await (await registry.appendBatch(COLLECTION, ["a", "b"])).wait();
+    await (await registry.appendBatch(COLLECTION, ["b", "c", "a"])).wait();
+
+    expect(await registry.getItems(COLLECTION, 0, 10)).to.deep.eq([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("stores the payload and lists the item in one transaction", async function () {
+    const payload = ethers.toUtf8Bytes('{"modelName":"fraud-v1"}');
+    await (await registry.setWriter(alice.address, true)).wait();
+
+    await expect(
+      registry.connect(alice).appendWithData(COLLECTION, "a", payload),
+    )
+      .to.emit(registry, "ItemAppended")
+      .withArgs(COLLECTION, 0n, "a", alice.address)
+      .and.to.emit(dataStore, "DataStored");
+
+    expect(await dataStore.getData("metric_a")).to.eq(ethers.hexlify(payload));
+    expect(await registry.getItems(COLLECTION, 0, 10)).to.deep.eq(["a"]);
+
+    // A rejected listing also rolls back the payload write
+    await (await registry.append(COLLECTION, "b")).wait();
+    await expect(
+      registry.appendWithData(COLLECTION, "b", payload),
+    ).to.be.revertedWith("Item already listed");
+    expect(await dataStore.getData("metric_b")).to.eq("0x");
+  });
+
+  it("keeps a non-writer from overwriting a stored payload", async function () {
+    const payload = ethers.toUtf8Bytes('{"modelName":"fraud-v1"}');
+    await (await registry.setWriter(alice.address, true)).wait();
+    await (
+      await registry.connect(alice).appendWithData(COLLECTION, "a", payload)
+    ).wait();
+
+    await expect(
+      registry.connect(bob).appendWithData(COLLECTION, "a", "0x01"),
+    ).to.be.revertedWith("Not a registry writer");
+    // The key follows the item, so not even a writer reaches it by listing the item elsewhere
+    await expect(
+      registry.connect(alice).appendWithData("other", "a", "0x01"),
+    ).to.be.revertedWith("Payload already stored");
+    expect(await dataStore.getData("metric_a")).to.eq(ethers.hexlify(payload));
+    expect(await registry.isListed("other", "a")).to.eq(false);
+  });
+
+  it("reserves listings to writers so ids cannot be squatted", async function () {
+    await expect(
+      registry.connect(alice).append(COLLECTION, "a"),
+    ).to.be.revertedWith("Not a registry writer");
+    await expect(
+      registry.connect(alice).appendBatch(COLLECTION, ["a"]),
+    ).to.be.revertedWith("Not a registry writer");
+    await expect(
+      registry.connect(alice).setWriter(alice.address, true),
+    ).to.be.revertedWith("Not registry owner");
+
+    await expect(
+      registry.connect(bob).appendWithData(COLLECTION, "a", "0x01"),
+    ).to.be.revertedWith("Not a registry writer");
+    expect(await registry.isListed(COLLECTION, "a")).to.eq(false);
+
+    await expect(registry.setWriter(alice.address, true))
+      .to.emit(registry, "WriterUpdated")
+      .withArgs(alice.address, true);
+    await (await registry.connect(alice).append(COLLECTION, "b")).wait();
+    expect(await registry.isWriter(alice.address)).to.eq(true);
+  });
+
+  it("requires a data store for combined writes", async function () {
+    const factory = (await ethers.getContractFactory(
+      "MetricRegistry",
+    )) as MetricRegistry__factory;
+    const standalone = await factory.deploy(ethers.ZeroAddress);
+
+    await expect(
+      standalone.appendWithData(COLLECTION, "a", "0x01"),
+    ).to.be.revertedWith("No data store");
+  });
+});
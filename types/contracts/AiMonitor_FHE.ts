@@ -0,0 +1,2481 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace FairnessMetrics {
+  export type ConfigStruct = {
+    segmentCount: BigNumberish;
+    parityThreshold: BigNumberish;
+    opportunityThreshold: BigNumberish;
+    accuracyThreshold: BigNumberish;
+  };
+
+  export type ConfigStructOutput = [
+    segmentCount: bigint,
+    parityThreshold: bigint,
+    opportunityThreshold: bigint,
+    accuracyThreshold: bigint
+  ] & {
+    segmentCount: bigint;
+    parityThreshold: bigint;
+    opportunityThreshold: bigint;
+    accuracyThreshold: bigint;
+  };
+}
+
+export declare namespace AiMonitor_FHE {
+  export type AlertThresholdsStruct = {
+    criticalScore: BigNumberish;
+    warningScore: BigNumberish;
+    noticeScore: BigNumberish;
+    retrainingScore: BigNumberish;
+    lossWarning: BigNumberish;
+    lossCritical: BigNumberish;
+  };
+
+  export type AlertThresholdsStructOutput = [
+    criticalScore: bigint,
+    warningScore: bigint,
+    noticeScore: bigint,
+    retrainingScore: bigint,
+    lossWarning: bigint,
+    lossCritical: bigint
+  ] & {
+    criticalScore: bigint;
+    warningScore: bigint;
+    noticeScore: bigint;
+    retrainingScore: bigint;
+    lossWarning: bigint;
+    lossCritical: bigint;
+  };
+
+  export type FairnessRevealStruct = {
+    parityGapExceeded: boolean;
+    opportunityGapExceeded: boolean;
+    accuracyGapExceeded: boolean;
+    timestamp: BigNumberish;
+    isRevealed: boolean;
+  };
+
+  export type FairnessRevealStructOutput = [
+    parityGapExceeded: boolean,
+    opportunityGapExceeded: boolean,
+    accuracyGapExceeded: boolean,
+    timestamp: bigint,
+    isRevealed: boolean
+  ] & {
+    parityGapExceeded: boolean;
+    opportunityGapExceeded: boolean;
+    accuracyGapExceeded: boolean;
+    timestamp: bigint;
+    isRevealed: boolean;
+  };
+}
+
+export declare namespace ModelMetrics {
+  export type MetricScalesStruct = {
+    accuracyScale: BigNumberish;
+    lossScale: BigNumberish;
+  };
+
+  export type MetricScalesStructOutput = [
+    accuracyScale: bigint,
+    lossScale: bigint
+  ] & { accuracyScale: bigint; lossScale: bigint };
+}
+
+export declare namespace PredictionSchema {
+  export type SchemaStruct = {
+    featureCount: BigNumberish;
+    outputArity: BigNumberish;
+  };
+
+  export type SchemaStructOutput = [
+    featureCount: bigint,
+    outputArity: bigint
+  ] & { featureCount: bigint; outputArity: bigint };
+}
+
+export interface AiMonitor_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "assignEncryptedSegment"
+      | "attachEncryptedGroundTruth"
+      | "classificationModels"
+      | "configureDrift"
+      | "configureFairness"
+      | "configureModelSchema"
+      | "decryptModelMetrics"
+      | "enableClassification"
+      | "getAlertThresholds"
+      | "getClassificationMetrics"
+      | "getConfusionMatrix"
+      | "getDecryptedAlert"
+      | "getDriftReveal"
+      | "getDriftStatus"
+      | "getEncryptedAlert"
+      | "getFairnessConfig"
+      | "getFairnessReveal"
+      | "getLatestRevealedMetrics"
+      | "getMetricScales"
+      | "getModelIdByHash"
+      | "getModelOwner"
+      | "getModelSchema"
+      | "getMonitoredModels"
+      | "getPredictionVectors"
+      | "getRevealedMetrics"
+      | "getRevealedMetricsCount"
+      | "isModelViewer"
+      | "isModelWriter"
+      | "metricRegistry"
+      | "modelPerformance"
+      | "predictionCount"
+      | "predictions"
+      | "processAlertOnlyAnalysis"
+      | "processConfusionMatrixDecryption"
+      | "processDriftDecryption"
+      | "processFairnessEvaluation"
+      | "processPerformanceAnalysis"
+      | "protocolId"
+      | "recordEncryptedPrediction"
+      | "recordEncryptedPredictionBatch"
+      | "recordEncryptedPredictionVector"
+      | "recordUnlabeledPrediction"
+      | "registerModel"
+      | "requestAlertOnlyAnalysis"
+      | "requestConfusionMatrixDecryption"
+      | "requestDriftDecryption"
+      | "requestFairnessEvaluation"
+      | "requestModelMetricsDecryption"
+      | "requestPerformanceAnalysis"
+      | "resetDriftReference"
+      | "setAlertThresholds"
+      | "setMetricScales"
+      | "setModelViewer"
+      | "setModelWriter"
+      | "transferModelOwnership"
+      | "updateModelMetrics"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AlertGenerated"
+      | "AlertOnlyAnalysisRequested"
+      | "AlertThresholdsUpdated"
+      | "ClassificationEnabled"
+      | "ConfusionMatrixDecrypted"
+      | "DecryptionFulfilled"
+      | "DriftConfigured"
+      | "DriftDecrypted"
+      | "DriftEvaluated"
+      | "FairnessConfigured"
+      | "FairnessDecrypted"
+      | "GroundTruthAttached"
+      | "MetricScalesUpdated"
+      | "ModelMetricsDecrypted"
+      | "ModelOwnershipTransferred"
+      | "ModelRegistered"
+      | "ModelSchemaConfigured"
+      | "ModelViewerUpdated"
+      | "ModelWriterUpdated"
+      | "PerformanceAlertDecrypted"
+      | "PerformanceAnalysisRequested"
+      | "PredictionBatchRecorded"
+      | "PredictionRecorded"
+      | "SegmentAssigned"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "assignEncryptedSegment",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attachEncryptedGroundTruth",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "classificationModels",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configureDrift",
+    values: [string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configureFairness",
+    values: [string, FairnessMetrics.ConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configureModelSchema",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptModelMetrics",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "enableClassification",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAlertThresholds",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClassificationMetrics",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConfusionMatrix",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedAlert",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDriftReveal",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDriftStatus",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAlert",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFairnessConfig",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFairnessReveal",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLatestRevealedMetrics",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMetricScales",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getModelIdByHash",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getModelOwner",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getModelSchema",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMonitoredModels",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPredictionVectors",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedMetrics",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedMetricsCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isModelViewer",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isModelWriter",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "metricRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "modelPerformance",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "predictionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "predictions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processAlertOnlyAnalysis",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processConfusionMatrixDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processDriftDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processFairnessEvaluation",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processPerformanceAnalysis",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordEncryptedPrediction",
+    values: [string, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordEncryptedPredictionBatch",
+    values: [string, BytesLike[], BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordEncryptedPredictionVector",
+    values: [
+      string,
+      BytesLike[],
+      BytesLike[],
+      BytesLike[],
+      BytesLike[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordUnlabeledPrediction",
+    values: [string, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerModel",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAlertOnlyAnalysis",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestConfusionMatrixDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestDriftDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestFairnessEvaluation",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestModelMetricsDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestPerformanceAnalysis",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetDriftReference",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAlertThresholds",
+    values: [string, AiMonitor_FHE.AlertThresholdsStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMetricScales",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setModelViewer",
+    values: [string, AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setModelWriter",
+    values: [string, AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferModelOwnership",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateModelMetrics",
+    values: [
+      string,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      string,
+      BytesLike
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "assignEncryptedSegment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attachEncryptedGroundTruth",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "classificationModels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "configureDrift",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "configureFairness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "configureModelSchema",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptModelMetrics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "enableClassification",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAlertThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClassificationMetrics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConfusionMatrix",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedAlert",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDriftReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDriftStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAlert",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFairnessConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getFairnessReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLatestRevealedMetrics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMetricScales",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getModelIdByHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getModelOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getModelSchema",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMonitoredModels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPredictionVectors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedMetrics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedMetricsCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isModelViewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isModelWriter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "metricRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "modelPerformance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "predictionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "predictions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processAlertOnlyAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processConfusionMatrixDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processDriftDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processFairnessEvaluation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processPerformanceAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordEncryptedPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordEncryptedPredictionBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordEncryptedPredictionVector",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordUnlabeledPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAlertOnlyAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestConfusionMatrixDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestDriftDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestFairnessEvaluation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestModelMetricsDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestPerformanceAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resetDriftReference",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAlertThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMetricScales",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setModelViewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setModelWriter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferModelOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateModelMetrics",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AlertGeneratedEvent {
+  export type InputTuple = [predictionId: BigNumberish];
+  export type OutputTuple = [predictionId: bigint];
+  export interface OutputObject {
+    predictionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AlertOnlyAnalysisRequestedEvent {
+  export type InputTuple = [predictionId: BigNumberish];
+  export type OutputTuple = [predictionId: bigint];
+  export interface OutputObject {
+    predictionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AlertThresholdsUpdatedEvent {
+  export type InputTuple = [modelId: string];
+  export type OutputTuple = [modelId: string];
+  export interface OutputObject {
+    modelId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClassificationEnabledEvent {
+  export type InputTuple = [modelId: string];
+  export type OutputTuple = [modelId: string];
+  export interface OutputObject {
+    modelId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfusionMatrixDecryptedEvent {
+  export type InputTuple = [
+    modelId: string,
+    truePositives: BigNumberish,
+    falsePositives: BigNumberish,
+    trueNegatives: BigNumberish,
+    falseNegatives: BigNumberish
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    truePositives: bigint,
+    falsePositives: bigint,
+    trueNegatives: bigint,
+    falseNegatives: bigint
+  ];
+  export interface OutputObject {
+    modelId: string;
+    truePositives: bigint;
+    falsePositives: bigint;
+    trueNegatives: bigint;
+    falseNegatives: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DriftConfiguredEvent {
+  export type InputTuple = [
+    modelId: string,
+    windowSize: BigNumberish,
+    meanThreshold: BigNumberish,
+    varianceThreshold: BigNumberish
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    windowSize: bigint,
+    meanThreshold: bigint,
+    varianceThreshold: bigint
+  ];
+  export interface OutputObject {
+    modelId: string;
+    windowSize: bigint;
+    meanThreshold: bigint;
+    varianceThreshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DriftDecryptedEvent {
+  export type InputTuple = [
+    modelId: string,
+    evaluation: BigNumberish,
+    drifted: boolean
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    evaluation: bigint,
+    drifted: boolean
+  ];
+  export interface OutputObject {
+    modelId: string;
+    evaluation: bigint;
+    drifted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DriftEvaluatedEvent {
+  export type InputTuple = [modelId: string, evaluation: BigNumberish];
+  export type OutputTuple = [modelId: string, evaluation: bigint];
+  export interface OutputObject {
+    modelId: string;
+    evaluation: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FairnessConfiguredEvent {
+  export type InputTuple = [modelId: string, segmentCount: BigNumberish];
+  export type OutputTuple = [modelId: string, segmentCount: bigint];
+  export interface OutputObject {
+    modelId: string;
+    segmentCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FairnessDecryptedEvent {
+  export type InputTuple = [
+    modelId: string,
+    segment: BigNumberish,
+    parityGapExceeded: boolean,
+    opportunityGapExceeded: boolean,
+    accuracyGapExceeded: boolean
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    segment: bigint,
+    parityGapExceeded: boolean,
+    opportunityGapExceeded: boolean,
+    accuracyGapExceeded: boolean
+  ];
+  export interface OutputObject {
+    modelId: string;
+    segment: bigint;
+    parityGapExceeded: boolean;
+    opportunityGapExceeded: boolean;
+    accuracyGapExceeded: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GroundTruthAttachedEvent {
+  export type InputTuple = [
+    predictionId: BigNumberish,
+    modelHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    predictionId: bigint,
+    modelHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    predictionId: bigint;
+    modelHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MetricScalesUpdatedEvent {
+  export type InputTuple = [
+    modelId: string,
+    accuracyScale: BigNumberish,
+    lossScale: BigNumberish
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    accuracyScale: bigint,
+    lossScale: bigint
+  ];
+  export interface OutputObject {
+    modelId: string;
+    accuracyScale: bigint;
+    lossScale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelMetricsDecryptedEvent {
+  export type InputTuple = [
+    modelId: string,
+    index: BigNumberish,
+    accuracy: BigNumberish,
+    driftScore: BigNumberish,
+    errorRate: BigNumberish,
+    sampleCount: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    index: bigint,
+    accuracy: bigint,
+    driftScore: bigint,
+    errorRate: bigint,
+    sampleCount: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    modelId: string;
+    index: bigint;
+    accuracy: bigint;
+    driftScore: bigint;
+    errorRate: bigint;
+    sampleCount: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelOwnershipTransferredEvent {
+  export type InputTuple = [
+    modelId: string,
+    previousOwner: AddressLike,
+    newOwner: AddressLike
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    previousOwner: string,
+    newOwner: string
+  ];
+  export interface OutputObject {
+    modelId: string;
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelRegisteredEvent {
+  export type InputTuple = [modelId: string, owner: AddressLike];
+  export type OutputTuple = [modelId: string, owner: string];
+  export interface OutputObject {
+    modelId: string;
+    owner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelSchemaConfiguredEvent {
+  export type InputTuple = [
+    modelId: string,
+    featureCount: BigNumberish,
+    outputArity: BigNumberish
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    featureCount: bigint,
+    outputArity: bigint
+  ];
+  export interface OutputObject {
+    modelId: string;
+    featureCount: bigint;
+    outputArity: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelViewerUpdatedEvent {
+  export type InputTuple = [
+    modelId: string,
+    account: AddressLike,
+    allowed: boolean
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    account: string,
+    allowed: boolean
+  ];
+  export interface OutputObject {
+    modelId: string;
+    account: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ModelWriterUpdatedEvent {
+  export type InputTuple = [
+    modelId: string,
+    account: AddressLike,
+    allowed: boolean
+  ];
+  export type OutputTuple = [
+    modelId: string,
+    account: string,
+    allowed: boolean
+  ];
+  export interface OutputObject {
+    modelId: string;
+    account: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PerformanceAlertDecryptedEvent {
+  export type InputTuple = [predictionId: BigNumberish];
+  export type OutputTuple = [predictionId: bigint];
+  export interface OutputObject {
+    predictionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PerformanceAnalysisRequestedEvent {
+  export type InputTuple = [predictionId: BigNumberish];
+  export type OutputTuple = [predictionId: bigint];
+  export interface OutputObject {
+    predictionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionBatchRecordedEvent {
+  export type InputTuple = [
+    modelHash: BytesLike,
+    modelId: string,
+    firstId: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    modelHash: string,
+    modelId: string,
+    firstId: bigint,
+    count: bigint
+  ];
+  export interface OutputObject {
+    modelHash: string;
+    modelId: string;
+    firstId: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionRecordedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    modelHash: BytesLike,
+    modelId: string,
+    timestamp: BigNumberish,
+    labelPending: boolean
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    modelHash: string,
+    modelId: string,
+    timestamp: bigint,
+    labelPending: boolean
+  ];
+  export interface OutputObject {
+    id: bigint;
+    modelHash: string;
+    modelId: string;
+    timestamp: bigint;
+    labelPending: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SegmentAssignedEvent {
+  export type InputTuple = [predictionId: BigNumberish];
+  export type OutputTuple = [predictionId: bigint];
+  export interface OutputObject {
+    predictionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AiMonitor_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AiMonitor_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AiMonitor_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  assignEncryptedSegment: TypedContractMethod<
+    [
+      predictionId: BigNumberish,
+      encryptedSegment: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  attachEncryptedGroundTruth: TypedContractMethod<
+    [
+      predictionId: BigNumberish,
+      encryptedGroundTruth: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  classificationModels: TypedContractMethod<[arg0: string], [boolean], "view">;
+
+  configureDrift: TypedContractMethod<
+    [
+      modelId: string,
+      windowSize: BigNumberish,
+      meanThreshold: BigNumberish,
+      varianceThreshold: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  configureFairness: TypedContractMethod<
+    [modelId: string, config: FairnessMetrics.ConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  configureModelSchema: TypedContractMethod<
+    [modelId: string, featureCount: BigNumberish, outputArity: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptModelMetrics: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  enableClassification: TypedContractMethod<
+    [modelId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getAlertThresholds: TypedContractMethod<
+    [modelId: string],
+    [AiMonitor_FHE.AlertThresholdsStructOutput],
+    "view"
+  >;
+
+  getClassificationMetrics: TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        precision: bigint;
+        recall: bigint;
+        f1: bigint;
+        accuracy: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getConfusionMatrix: TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, bigint, bigint, boolean] & {
+        truePositives: bigint;
+        falsePositives: bigint;
+        trueNegatives: bigint;
+        falseNegatives: bigint;
+        timestamp: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptedAlert: TypedContractMethod<
+    [predictionId: BigNumberish],
+    [
+      [bigint, string, boolean, boolean, boolean] & {
+        score: bigint;
+        alert: string;
+        retraining: boolean;
+        isRevealed: boolean;
+        alertOnly: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getDriftReveal: TypedContractMethod<
+    [modelId: string],
+    [
+      [boolean, bigint, bigint, boolean] & {
+        drifted: boolean;
+        evaluation: bigint;
+        timestamp: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getDriftStatus: TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, string] & {
+        referenceCount: bigint;
+        currentCount: bigint;
+        evaluations: bigint;
+        encryptedDriftFlag: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedAlert: TypedContractMethod<
+    [predictionId: BigNumberish],
+    [[string, string] & { level: string; needsRetraining: string }],
+    "view"
+  >;
+
+  getFairnessConfig: TypedContractMethod<
+    [modelId: string],
+    [FairnessMetrics.ConfigStructOutput],
+    "view"
+  >;
+
+  getFairnessReveal: TypedContractMethod<
+    [modelId: string, segment: BigNumberish],
+    [AiMonitor_FHE.FairnessRevealStructOutput],
+    "view"
+  >;
+
+  getLatestRevealedMetrics: TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        accuracy: bigint;
+        driftScore: bigint;
+        errorRate: bigint;
+        sampleCount: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getMetricScales: TypedContractMethod<
+    [modelId: string],
+    [ModelMetrics.MetricScalesStructOutput],
+    "view"
+  >;
+
+  getModelIdByHash: TypedContractMethod<
+    [modelHash: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getModelOwner: TypedContractMethod<[modelId: string], [string], "view">;
+
+  getModelSchema: TypedContractMethod<
+    [modelId: string],
+    [PredictionSchema.SchemaStructOutput],
+    "view"
+  >;
+
+  getMonitoredModels: TypedContractMethod<[], [string[]], "view">;
+
+  getPredictionVectors: TypedContractMethod<
+    [predictionId: BigNumberish],
+    [[string[], string[]] & { features: string[]; outputs: string[] }],
+    "view"
+  >;
+
+  getRevealedMetrics: TypedContractMethod<
+    [modelId: string, index: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        accuracy: bigint;
+        driftScore: bigint;
+        errorRate: bigint;
+        sampleCount: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRevealedMetricsCount: TypedContractMethod<
+    [modelId: string],
+    [bigint],
+    "view"
+  >;
+
+  isModelViewer: TypedContractMethod<
+    [modelId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isModelWriter: TypedContractMethod<
+    [modelId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  metricRegistry: TypedContractMethod<[], [string], "view">;
+
+  modelPerformance: TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, string, string] & {
+        encryptedAccuracySum: string;
+        encryptedDriftScoreSum: string;
+        encryptedErrorRateSum: string;
+        encryptedSampleCount: string;
+      }
+    ],
+    "view"
+  >;
+
+  predictionCount: TypedContractMethod<[], [bigint], "view">;
+
+  predictions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, bigint, string, boolean, string] & {
+        id: bigint;
+        encryptedInput: string;
+        encryptedPrediction: string;
+        encryptedGroundTruth: string;
+        timestamp: bigint;
+        modelId: string;
+        labelPending: boolean;
+        encryptedSegment: string;
+      }
+    ],
+    "view"
+  >;
+
+  processAlertOnlyAnalysis: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  processConfusionMatrixDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  processDriftDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  processFairnessEvaluation: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  processPerformanceAnalysis: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordEncryptedPrediction: TypedContractMethod<
+    [
+      modelId: string,
+      encryptedInput: BytesLike,
+      encryptedPrediction: BytesLike,
+      encryptedGroundTruth: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  recordEncryptedPredictionBatch: TypedContractMethod<
+    [
+      modelId: string,
+      encryptedInputs: BytesLike[],
+      encryptedPredictions: BytesLike[],
+      encryptedGroundTruths: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  recordEncryptedPredictionVector: TypedContractMethod<
+    [
+      modelId: string,
+      encryptedFeatures: BytesLike[],
+      encryptedOutputs: BytesLike[],
+      encryptedGroundTruth: BytesLike[],
+      encryptedSegment: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  recordUnlabeledPrediction: TypedContractMethod<
+    [
+      modelId: string,
+      encryptedInput: BytesLike,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  registerModel: TypedContractMethod<[modelId: string], [void], "nonpayable">;
+
+  requestAlertOnlyAnalysis: TypedContractMethod<
+    [predictionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestConfusionMatrixDecryption: TypedContractMethod<
+    [modelId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestDriftDecryption: TypedContractMethod<
+    [modelId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestFairnessEvaluation: TypedContractMethod<
+    [modelId: string, segment: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestModelMetricsDecryption: TypedContractMethod<
+    [modelId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestPerformanceAnalysis: TypedContractMethod<
+    [predictionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resetDriftReference: TypedContractMethod<
+    [modelId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setAlertThresholds: TypedContractMethod<
+    [modelId: string, thresholds: AiMonitor_FHE.AlertThresholdsStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setMetricScales: TypedContractMethod<
+    [modelId: string, accuracyScale: BigNumberish, lossScale: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setModelViewer: TypedContractMethod<
+    [modelId: string, account: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setModelWriter: TypedContractMethod<
+    [modelId: string, account: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  transferModelOwnership: TypedContractMethod<
+    [modelId: string, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateModelMetrics: TypedContractMethod<
+    [
+      modelId: string,
+      encryptedAccuracy: BytesLike,
+      encryptedDrift: BytesLike,
+      encryptedErrorRate: BytesLike,
+      inputProof: BytesLike,
+      metricId: string,
+      payload: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "assignEncryptedSegment"
+  ): TypedContractMethod<
+    [
+      predictionId: BigNumberish,
+      encryptedSegment: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "attachEncryptedGroundTruth"
+  ): TypedContractMethod<
+    [
+      predictionId: BigNumberish,
+      encryptedGroundTruth: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "classificationModels"
+  ): TypedContractMethod<[arg0: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "configureDrift"
+  ): TypedContractMethod<
+    [
+      modelId: string,
+      windowSize: BigNumberish,
+      meanThreshold: BigNumberish,
+      varianceThreshold: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "configureFairness"
+  ): TypedContractMethod<
+    [modelId: string, config: FairnessMetrics.ConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "configureModelSchema"
+  ): TypedContractMethod<
+    [modelId: string, featureCount: BigNumberish, outputArity: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptModelMetrics"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "enableClassification"
+  ): TypedContractMethod<[modelId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAlertThresholds"
+  ): TypedContractMethod<
+    [modelId: string],
+    [AiMonitor_FHE.AlertThresholdsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getClassificationMetrics"
+  ): TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        precision: bigint;
+        recall: bigint;
+        f1: bigint;
+        accuracy: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getConfusionMatrix"
+  ): TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, bigint, bigint, boolean] & {
+        truePositives: bigint;
+        falsePositives: bigint;
+        trueNegatives: bigint;
+        falseNegatives: bigint;
+        timestamp: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptedAlert"
+  ): TypedContractMethod<
+    [predictionId: BigNumberish],
+    [
+      [bigint, string, boolean, boolean, boolean] & {
+        score: bigint;
+        alert: string;
+        retraining: boolean;
+        isRevealed: boolean;
+        alertOnly: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDriftReveal"
+  ): TypedContractMethod<
+    [modelId: string],
+    [
+      [boolean, bigint, bigint, boolean] & {
+        drifted: boolean;
+        evaluation: bigint;
+        timestamp: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDriftStatus"
+  ): TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, string] & {
+        referenceCount: bigint;
+        currentCount: bigint;
+        evaluations: bigint;
+        encryptedDriftFlag: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedAlert"
+  ): TypedContractMethod<
+    [predictionId: BigNumberish],
+    [[string, string] & { level: string; needsRetraining: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFairnessConfig"
+  ): TypedContractMethod<
+    [modelId: string],
+    [FairnessMetrics.ConfigStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getFairnessReveal"
+  ): TypedContractMethod<
+    [modelId: string, segment: BigNumberish],
+    [AiMonitor_FHE.FairnessRevealStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLatestRevealedMetrics"
+  ): TypedContractMethod<
+    [modelId: string],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        accuracy: bigint;
+        driftScore: bigint;
+        errorRate: bigint;
+        sampleCount: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMetricScales"
+  ): TypedContractMethod<
+    [modelId: string],
+    [ModelMetrics.MetricScalesStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getModelIdByHash"
+  ): TypedContractMethod<[modelHash: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getModelOwner"
+  ): TypedContractMethod<[modelId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getModelSchema"
+  ): TypedContractMethod<
+    [modelId: string],
+    [PredictionSchema.SchemaStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMonitoredModels"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getPredictionVectors"
+  ): TypedContractMethod<
+    [predictionId: BigNumberish],
+    [[string[], string[]] & { features: string[]; outputs: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRevealedMetrics"
+  ): TypedContractMethod<
+    [modelId: string, index: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        accuracy: bigint;
+        driftScore: bigint;
+        errorRate: bigint;
+        sampleCount: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRevealedMetricsCount"
+  ): TypedContractMethod<[modelId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isModelViewer"
+  ): TypedContractMethod<
+    [modelId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isModelWriter"
+  ): TypedContractMethod<
+    [modelId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "metricRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "modelPerformance"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, string, string] & {
+        encryptedAccuracySum: string;
+        encryptedDriftScoreSum: string;
+        encryptedErrorRateSum: string;
+        encryptedSampleCount: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "predictionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "predictions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, bigint, string, boolean, string] & {
+        id: bigint;
+        encryptedInput: string;
+        encryptedPrediction: string;
+        encryptedGroundTruth: string;
+        timestamp: bigint;
+        modelId: string;
+        labelPending: boolean;
+        encryptedSegment: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "processAlertOnlyAnalysis"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processConfusionMatrixDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processDriftDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processFairnessEvaluation"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processPerformanceAnalysis"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordEncryptedPrediction"
+  ): TypedContractMethod<
+    [
+      modelId: string,
+      encryptedInput: BytesLike,
+      encryptedPrediction: BytesLike,
+      encryptedGroundTruth: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordEncryptedPredictionBatch"
+  ): TypedContractMethod<
+    [
+      modelId: string,
+      encryptedInputs: BytesLike[],
+      encryptedPredictions: BytesLike[],
+      encryptedGroundTruths: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordEncryptedPredictionVector"
+  ): TypedContractMethod<
+    [
+      modelId: string,
+      encryptedFeatures: BytesLike[],
+      encryptedOutputs: BytesLike[],
+      encryptedGroundTruth: BytesLike[],
+      encryptedSegment: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "recordUnlabeledPrediction"
+  ): TypedContractMethod<
+    [
+      modelId: string,
+      encryptedInput: BytesLike,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerModel"
+  ): TypedContractMethod<[modelId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestAlertOnlyAnalysis"
+  ): TypedContractMethod<[predictionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestConfusionMatrixDecryption"
+  ): TypedContractMethod<[modelId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestDriftDecryption"
+  ): TypedContractMethod<[modelId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestFairnessEvaluation"
+  ): TypedContractMethod<
+    [modelId: string, segment: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestModelMetricsDecryption"
+  ): TypedContractMethod<[modelId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestPerformanceAnalysis"
+  ): TypedContractMethod<[predictionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resetDriftReference"
+  ): TypedContractMethod<[modelId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setAlertThresholds"
+  ): TypedContractMethod<
+    [modelId: string, thresholds: AiMonitor_FHE.AlertThresholdsStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMetricScales"
+  ): TypedContractMethod<
+    [modelId: string, accuracyScale: BigNumberish, lossScale: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setModelViewer"
+  ): TypedContractMethod<
+    [modelId: string, account: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setModelWriter"
+  ): TypedContractMethod<
+    [modelId: string, account: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferModelOwnership"
+  ): TypedContractMethod<
+    [modelId: string, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateModelMetrics"
+  ): TypedContractMethod<
+    [
+      modelId: string,
+      encryptedAccuracy: BytesLike,
+      encryptedDrift: BytesLike,
+      encryptedErrorRate: BytesLike,
+      inputProof: BytesLike,
+      metricId: string,
+      payload: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AlertGenerated"
+  ): TypedContractEvent<
+    AlertGeneratedEvent.InputTuple,
+    AlertGeneratedEvent.OutputTuple,
+    AlertGeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AlertOnlyAnalysisRequested"
+  ): TypedContractEvent<
+    AlertOnlyAnalysisRequestedEvent.InputTuple,
+    AlertOnlyAnalysisRequestedEvent.OutputTuple,
+    AlertOnlyAnalysisRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AlertThresholdsUpdated"
+  ): TypedContractEvent<
+    AlertThresholdsUpdatedEvent.InputTuple,
+    AlertThresholdsUpdatedEvent.OutputTuple,
+    AlertThresholdsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClassificationEnabled"
+  ): TypedContractEvent<
+    ClassificationEnabledEvent.InputTuple,
+    ClassificationEnabledEvent.OutputTuple,
+    ClassificationEnabledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfusionMatrixDecrypted"
+  ): TypedContractEvent<
+    ConfusionMatrixDecryptedEvent.InputTuple,
+    ConfusionMatrixDecryptedEvent.OutputTuple,
+    ConfusionMatrixDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DriftConfigured"
+  ): TypedContractEvent<
+    DriftConfiguredEvent.InputTuple,
+    DriftConfiguredEvent.OutputTuple,
+    DriftConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DriftDecrypted"
+  ): TypedContractEvent<
+    DriftDecryptedEvent.InputTuple,
+    DriftDecryptedEvent.OutputTuple,
+    DriftDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DriftEvaluated"
+  ): TypedContractEvent<
+    DriftEvaluatedEvent.InputTuple,
+    DriftEvaluatedEvent.OutputTuple,
+    DriftEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FairnessConfigured"
+  ): TypedContractEvent<
+    FairnessConfiguredEvent.InputTuple,
+    FairnessConfiguredEvent.OutputTuple,
+    FairnessConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "FairnessDecrypted"
+  ): TypedContractEvent<
+    FairnessDecryptedEvent.InputTuple,
+    FairnessDecryptedEvent.OutputTuple,
+    FairnessDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GroundTruthAttached"
+  ): TypedContractEvent<
+    GroundTruthAttachedEvent.InputTuple,
+    GroundTruthAttachedEvent.OutputTuple,
+    GroundTruthAttachedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MetricScalesUpdated"
+  ): TypedContractEvent<
+    MetricScalesUpdatedEvent.InputTuple,
+    MetricScalesUpdatedEvent.OutputTuple,
+    MetricScalesUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelMetricsDecrypted"
+  ): TypedContractEvent<
+    ModelMetricsDecryptedEvent.InputTuple,
+    ModelMetricsDecryptedEvent.OutputTuple,
+    ModelMetricsDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelOwnershipTransferred"
+  ): TypedContractEvent<
+    ModelOwnershipTransferredEvent.InputTuple,
+    ModelOwnershipTransferredEvent.OutputTuple,
+    ModelOwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelRegistered"
+  ): TypedContractEvent<
+    ModelRegisteredEvent.InputTuple,
+    ModelRegisteredEvent.OutputTuple,
+    ModelRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelSchemaConfigured"
+  ): TypedContractEvent<
+    ModelSchemaConfiguredEvent.InputTuple,
+    ModelSchemaConfiguredEvent.OutputTuple,
+    ModelSchemaConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelViewerUpdated"
+  ): TypedContractEvent<
+    ModelViewerUpdatedEvent.InputTuple,
+    ModelViewerUpdatedEvent.OutputTuple,
+    ModelViewerUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ModelWriterUpdated"
+  ): TypedContractEvent<
+    ModelWriterUpdatedEvent.InputTuple,
+    ModelWriterUpdatedEvent.OutputTuple,
+    ModelWriterUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PerformanceAlertDecrypted"
+  ): TypedContractEvent<
+    PerformanceAlertDecryptedEvent.InputTuple,
+    PerformanceAlertDecryptedEvent.OutputTuple,
+    PerformanceAlertDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PerformanceAnalysisRequested"
+  ): TypedContractEvent<
+    PerformanceAnalysisRequestedEvent.InputTuple,
+    PerformanceAnalysisRequestedEvent.OutputTuple,
+    PerformanceAnalysisRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionBatchRecorded"
+  ): TypedContractEvent<
+    PredictionBatchRecordedEvent.InputTuple,
+    PredictionBatchRecordedEvent.OutputTuple,
+    PredictionBatchRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionRecorded"
+  ): TypedContractEvent<
+    PredictionRecordedEvent.InputTuple,
+    PredictionRecordedEvent.OutputTuple,
+    PredictionRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SegmentAssigned"
+  ): TypedContractEvent<
+    SegmentAssignedEvent.InputTuple,
+    SegmentAssignedEvent.OutputTuple,
+    SegmentAssignedEvent.OutputObject
+  >;
+
+  filters: {
+    "AlertGenerated(uint256)": TypedContractEvent<
+      AlertGeneratedEvent.InputTuple,
+      AlertGeneratedEvent.OutputTuple,
+      AlertGeneratedEvent.OutputObject
+    >;
+    AlertGenerated: TypedContractEvent<
+      AlertGeneratedEvent.InputTuple,
+      AlertGeneratedEvent.OutputTuple,
+      AlertGeneratedEvent.OutputObject
+    >;
+
+    "AlertOnlyAnalysisRequested(uint256)": TypedContractEvent<
+      AlertOnlyAnalysisRequestedEvent.InputTuple,
+      AlertOnlyAnalysisRequestedEvent.OutputTuple,
+      AlertOnlyAnalysisRequestedEvent.OutputObject
+    >;
+    AlertOnlyAnalysisRequested: TypedContractEvent<
+      AlertOnlyAnalysisRequestedEvent.InputTuple,
+      AlertOnlyAnalysisRequestedEvent.OutputTuple,
+      AlertOnlyAnalysisRequestedEvent.OutputObject
+    >;
+
+    "AlertThresholdsUpdated(string)": TypedContractEvent<
+      AlertThresholdsUpdatedEvent.InputTuple,
+      AlertThresholdsUpdatedEvent.OutputTuple,
+      AlertThresholdsUpdatedEvent.OutputObject
+    >;
+    AlertThresholdsUpdated: TypedContractEvent<
+      AlertThresholdsUpdatedEvent.InputTuple,
+      AlertThresholdsUpdatedEvent.OutputTuple,
+      AlertThresholdsUpdatedEvent.OutputObject
+    >;
+
+    "ClassificationEnabled(string)": TypedContractEvent<
+      ClassificationEnabledEvent.InputTuple,
+      ClassificationEnabledEvent.OutputTuple,
+      ClassificationEnabledEvent.OutputObject
+    >;
+    ClassificationEnabled: TypedContractEvent<
+      ClassificationEnabledEvent.InputTuple,
+      ClassificationEnabledEvent.OutputTuple,
+      ClassificationEnabledEvent.OutputObject
+    >;
+
+    "ConfusionMatrixDecrypted(string,uint32,uint32,uint32,uint32)": TypedContractEvent<
+      ConfusionMatrixDecryptedEvent.InputTuple,
+      ConfusionMatrixDecryptedEvent.OutputTuple,
+      ConfusionMatrixDecryptedEvent.OutputObject
+    >;
+    ConfusionMatrixDecrypted: TypedContractEvent<
+      ConfusionMatrixDecryptedEvent.InputTuple,
+      ConfusionMatrixDecryptedEvent.OutputTuple,
+      ConfusionMatrixDecryptedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DriftConfigured(string,uint32,uint64,uint128)": TypedContractEvent<
+      DriftConfiguredEvent.InputTuple,
+      DriftConfiguredEvent.OutputTuple,
+      DriftConfiguredEvent.OutputObject
+    >;
+    DriftConfigured: TypedContractEvent<
+      DriftConfiguredEvent.InputTuple,
+      DriftConfiguredEvent.OutputTuple,
+      DriftConfiguredEvent.OutputObject
+    >;
+
+    "DriftDecrypted(string,uint256,bool)": TypedContractEvent<
+      DriftDecryptedEvent.InputTuple,
+      DriftDecryptedEvent.OutputTuple,
+      DriftDecryptedEvent.OutputObject
+    >;
+    DriftDecrypted: TypedContractEvent<
+      DriftDecryptedEvent.InputTuple,
+      DriftDecryptedEvent.OutputTuple,
+      DriftDecryptedEvent.OutputObject
+    >;
+
+    "DriftEvaluated(string,uint256)": TypedContractEvent<
+      DriftEvaluatedEvent.InputTuple,
+      DriftEvaluatedEvent.OutputTuple,
+      DriftEvaluatedEvent.OutputObject
+    >;
+    DriftEvaluated: TypedContractEvent<
+      DriftEvaluatedEvent.InputTuple,
+      DriftEvaluatedEvent.OutputTuple,
+      DriftEvaluatedEvent.OutputObject
+    >;
+
+    "FairnessConfigured(string,uint8)": TypedContractEvent<
+      FairnessConfiguredEvent.InputTuple,
+      FairnessConfiguredEvent.OutputTuple,
+      FairnessConfiguredEvent.OutputObject
+    >;
+    FairnessConfigured: TypedContractEvent<
+      FairnessConfiguredEvent.InputTuple,
+      FairnessConfiguredEvent.OutputTuple,
+      FairnessConfiguredEvent.OutputObject
+    >;
+
+    "FairnessDecrypted(string,uint8,bool,bool,bool)": TypedContractEvent<
+      FairnessDecryptedEvent.InputTuple,
+      FairnessDecryptedEvent.OutputTuple,
+      FairnessDecryptedEvent.OutputObject
+    >;
+    FairnessDecrypted: TypedContractEvent<
+      FairnessDecryptedEvent.InputTuple,
+      FairnessDecryptedEvent.OutputTuple,
+      FairnessDecryptedEvent.OutputObject
+    >;
+
+    "GroundTruthAttached(uint256,bytes32,uint256)": TypedContractEvent<
+      GroundTruthAttachedEvent.InputTuple,
+      GroundTruthAttachedEvent.OutputTuple,
+      GroundTruthAttachedEvent.OutputObject
+    >;
+    GroundTruthAttached: TypedContractEvent<
+      GroundTruthAttachedEvent.InputTuple,
+      GroundTruthAttachedEvent.OutputTuple,
+      GroundTruthAttachedEvent.OutputObject
+    >;
+
+    "MetricScalesUpdated(string,uint32,uint32)": TypedContractEvent<
+      MetricScalesUpdatedEvent.InputTuple,
+      MetricScalesUpdatedEvent.OutputTuple,
+      MetricScalesUpdatedEvent.OutputObject
+    >;
+    MetricScalesUpdated: TypedContractEvent<
+      MetricScalesUpdatedEvent.InputTuple,
+      MetricScalesUpdatedEvent.OutputTuple,
+      MetricScalesUpdatedEvent.OutputObject
+    >;
+
+    "ModelMetricsDecrypted(string,uint256,uint32,uint32,uint32,uint32,uint256)": TypedContractEvent<
+      ModelMetricsDecryptedEvent.InputTuple,
+      ModelMetricsDecryptedEvent.OutputTuple,
+      ModelMetricsDecryptedEvent.OutputObject
+    >;
+    ModelMetricsDecrypted: TypedContractEvent<
+      ModelMetricsDecryptedEvent.InputTuple,
+      ModelMetricsDecryptedEvent.OutputTuple,
+      ModelMetricsDecryptedEvent.OutputObject
+    >;
+
+    "ModelOwnershipTransferred(string,address,address)": TypedContractEvent<
+      ModelOwnershipTransferredEvent.InputTuple,
+      ModelOwnershipTransferredEvent.OutputTuple,
+      ModelOwnershipTransferredEvent.OutputObject
+    >;
+    ModelOwnershipTransferred: TypedContractEvent<
+      ModelOwnershipTransferredEvent.InputTuple,
+      ModelOwnershipTransferredEvent.OutputTuple,
+      ModelOwnershipTransferredEvent.OutputObject
+    >;
+
+    "ModelRegistered(string,address)": TypedContractEvent<
+      ModelRegisteredEvent.InputTuple,
+      ModelRegisteredEvent.OutputTuple,
+      ModelRegisteredEvent.OutputObject
+    >;
+    ModelRegistered: TypedContractEvent<
+      ModelRegisteredEvent.InputTuple,
+      ModelRegisteredEvent.OutputTuple,
+      ModelRegisteredEvent.OutputObject
+    >;
+
+    "ModelSchemaConfigured(string,uint8,uint8)": TypedContractEvent<
+      ModelSchemaConfiguredEvent.InputTuple,
+      ModelSchemaConfiguredEvent.OutputTuple,
+      ModelSchemaConfiguredEvent.OutputObject
+    >;
+    ModelSchemaConfigured: TypedContractEvent<
+      ModelSchemaConfiguredEvent.InputTuple,
+      ModelSchemaConfiguredEvent.OutputTuple,
+      ModelSchemaConfiguredEvent.OutputObject
+    >;
+
+    "ModelViewerUpdated(string,address,bool)": TypedContractEvent<
+      ModelViewerUpdatedEvent.InputTuple,
+      ModelViewerUpdatedEvent.OutputTuple,
+      ModelViewerUpdatedEvent.OutputObject
+    >;
+    ModelViewerUpdated: TypedContractEvent<
+      ModelViewerUpdatedEvent.InputTuple,
+      ModelViewerUpdatedEvent.OutputTuple,
+      ModelViewerUpdatedEvent.OutputObject
+    >;
+
+    "ModelWriterUpdated(string,address,bool)": TypedContractEvent<
+      ModelWriterUpdatedEvent.InputTuple,
+      ModelWriterUpdatedEvent.OutputTuple,
+      ModelWriterUpdatedEvent.OutputObject
+    >;
+    ModelWriterUpdated: TypedContractEvent<
+      ModelWriterUpdatedEvent.InputTuple,
+      ModelWriterUpdatedEvent.OutputTuple,
+      ModelWriterUpdatedEvent.OutputObject
+    >;
+
+    "PerformanceAlertDecrypted(uint256)": TypedContractEvent<
+      PerformanceAlertDecryptedEvent.InputTuple,
+      PerformanceAlertDecryptedEvent.OutputTuple,
+      PerformanceAlertDecryptedEvent.OutputObject
+    >;
+    PerformanceAlertDecrypted: TypedContractEvent<
+      PerformanceAlertDecryptedEvent.InputTuple,
+      PerformanceAlertDecryptedEvent.OutputTuple,
+      PerformanceAlertDecryptedEvent.OutputObject
+    >;
+
+    "PerformanceAnalysisRequested(uint256)": TypedContractEvent<
+      PerformanceAnalysisRequestedEvent.InputTuple,
+      PerformanceAnalysisRequestedEvent.OutputTuple,
+      PerformanceAnalysisRequestedEvent.OutputObject
+    >;
+    PerformanceAnalysisRequested: TypedContractEvent<
+      PerformanceAnalysisRequestedEvent.InputTuple,
+      PerformanceAnalysisRequestedEvent.OutputTuple,
+      PerformanceAnalysisRequestedEvent.OutputObject
+    >;
+
+    "PredictionBatchRecorded(bytes32,string,uint256,uint256)": TypedContractEvent<
+      PredictionBatchRecordedEvent.InputTuple,
+      PredictionBatchRecordedEvent.OutputTuple,
+      PredictionBatchRecordedEvent.OutputObject
+    >;
+    PredictionBatchRecorded: TypedContractEvent<
+      PredictionBatchRecordedEvent.InputTuple,
+      PredictionBatchRecordedEvent.OutputTuple,
+      PredictionBatchRecordedEvent.OutputObject
+    >;
+
+    "PredictionRecorded(uint256,bytes32,string,uint256,bool)": TypedContractEvent<
+      PredictionRecordedEvent.InputTuple,
+      PredictionRecordedEvent.OutputTuple,
+      PredictionRecordedEvent.OutputObject
+    >;
+    PredictionRecorded: TypedContractEvent<
+      PredictionRecordedEvent.InputTuple,
+      PredictionRecordedEvent.OutputTuple,
+      PredictionRecordedEvent.OutputObject
+    >;
+
+    "SegmentAssigned(uint256)": TypedContractEvent<
+      SegmentAssignedEvent.InputTuple,
+      SegmentAssignedEvent.OutputTuple,
+      SegmentAssignedEvent.OutputObject
+    >;
+    SegmentAssigned: TypedContractEvent<
+      SegmentAssignedEvent.InputTuple,
+      SegmentAssignedEvent.OutputTuple,
+      SegmentAssignedEvent.OutputObject
+    >;
+  };
+}
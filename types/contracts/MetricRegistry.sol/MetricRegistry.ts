@@ -0,0 +1,341 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MetricRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_PAGE_SIZE"
+      | "PAYLOAD_KEY_PREFIX"
+      | "append"
+      | "appendBatch"
+      | "appendWithData"
+      | "count"
+      | "dataStore"
+      | "getItems"
+      | "isListed"
+      | "isWriter"
+      | "owner"
+      | "setWriter"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ItemAppended" | "WriterUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAYLOAD_KEY_PREFIX",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "append",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appendBatch",
+    values: [string, string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "appendWithData",
+    values: [string, string, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "count", values: [string]): string;
+  encodeFunctionData(functionFragment: "dataStore", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getItems",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isListed",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isWriter",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setWriter",
+    values: [AddressLike, boolean]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAYLOAD_KEY_PREFIX",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "append", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "appendBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "appendWithData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "count", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "dataStore", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getItems", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isListed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isWriter", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setWriter", data: BytesLike): Result;
+}
+
+export namespace ItemAppendedEvent {
+  export type InputTuple = [
+    collection: string,
+    index: BigNumberish,
+    item: string,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [
+    collection: string,
+    index: bigint,
+    item: string,
+    sender: string
+  ];
+  export interface OutputObject {
+    collection: string;
+    index: bigint;
+    item: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WriterUpdatedEvent {
+  export type InputTuple = [account: AddressLike, allowed: boolean];
+  export type OutputTuple = [account: string, allowed: boolean];
+  export interface OutputObject {
+    account: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MetricRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): MetricRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: MetricRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  PAYLOAD_KEY_PREFIX: TypedContractMethod<[], [string], "view">;
+
+  append: TypedContractMethod<
+    [collection: string, item: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  appendBatch: TypedContractMethod<
+    [collection: string, items: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  appendWithData: TypedContractMethod<
+    [collection: string, item: string, value: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  count: TypedContractMethod<[collection: string], [bigint], "view">;
+
+  dataStore: TypedContractMethod<[], [string], "view">;
+
+  getItems: TypedContractMethod<
+    [collection: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  isListed: TypedContractMethod<
+    [collection: string, item: string],
+    [boolean],
+    "view"
+  >;
+
+  isWriter: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  setWriter: TypedContractMethod<
+    [account: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAYLOAD_KEY_PREFIX"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "append"
+  ): TypedContractMethod<
+    [collection: string, item: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "appendBatch"
+  ): TypedContractMethod<
+    [collection: string, items: string[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "appendWithData"
+  ): TypedContractMethod<
+    [collection: string, item: string, value: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "count"
+  ): TypedContractMethod<[collection: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dataStore"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getItems"
+  ): TypedContractMethod<
+    [collection: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isListed"
+  ): TypedContractMethod<[collection: string, item: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isWriter"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setWriter"
+  ): TypedContractMethod<
+    [account: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ItemAppended"
+  ): TypedContractEvent<
+    ItemAppendedEvent.InputTuple,
+    ItemAppendedEvent.OutputTuple,
+    ItemAppendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WriterUpdated"
+  ): TypedContractEvent<
+    WriterUpdatedEvent.InputTuple,
+    WriterUpdatedEvent.OutputTuple,
+    WriterUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "ItemAppended(string,uint256,string,address)": TypedContractEvent<
+      ItemAppendedEvent.InputTuple,
+      ItemAppendedEvent.OutputTuple,
+      ItemAppendedEvent.OutputObject
+    >;
+    ItemAppended: TypedContractEvent<
+      ItemAppendedEvent.InputTuple,
+      ItemAppendedEvent.OutputTuple,
+      ItemAppendedEvent.OutputObject
+    >;
+
+    "WriterUpdated(address,bool)": TypedContractEvent<
+      WriterUpdatedEvent.InputTuple,
+      WriterUpdatedEvent.OutputTuple,
+      WriterUpdatedEvent.OutputObject
+    >;
+    WriterUpdated: TypedContractEvent<
+      WriterUpdatedEvent.InputTuple,
+      WriterUpdatedEvent.OutputTuple,
+      WriterUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IDataStore } from "./IDataStore";
+export type { MetricRegistry } from "./MetricRegistry";
@@ -1,4 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as metricRegistrySol from "./MetricRegistry.sol";
+export type { metricRegistrySol };
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { AiMonitor_FHE } from "./AiMonitor_FHE";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,2226 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AiMonitor_FHE,
+  AiMonitor_FHEInterface,
+} from "../../contracts/AiMonitor_FHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract MetricRegistry",
+        name: "metricRegistry_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "AlertGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "AlertOnlyAnalysisRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "AlertThresholdsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "ClassificationEnabled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "truePositives",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "falsePositives",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "trueNegatives",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "falseNegatives",
+        type: "uint32",
+      },
+    ],
+    name: "ConfusionMatrixDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "windowSize",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "meanThreshold",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint128",
+        name: "varianceThreshold",
+        type: "uint128",
+      },
+    ],
+    name: "DriftConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "evaluation",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "drifted",
+        type: "bool",
+      },
+    ],
+    name: "DriftDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "evaluation",
+        type: "uint256",
+      },
+    ],
+    name: "DriftEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "segmentCount",
+        type: "uint8",
+      },
+    ],
+    name: "FairnessConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "segment",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "parityGapExceeded",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "opportunityGapExceeded",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "accuracyGapExceeded",
+        type: "bool",
+      },
+    ],
+    name: "FairnessDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "modelHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "GroundTruthAttached",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "accuracyScale",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "lossScale",
+        type: "uint32",
+      },
+    ],
+    name: "MetricScalesUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "accuracy",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "driftScore",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "errorRate",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "sampleCount",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ModelMetricsDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "ModelOwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ModelRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "featureCount",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "outputArity",
+        type: "uint8",
+      },
+    ],
+    name: "ModelSchemaConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "ModelViewerUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "ModelWriterUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "PerformanceAlertDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "PerformanceAnalysisRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "modelHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "firstId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionBatchRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "modelHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "labelPending",
+        type: "bool",
+      },
+    ],
+    name: "PredictionRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "SegmentAssigned",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSegment",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "assignEncryptedSegment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedGroundTruth",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "attachEncryptedGroundTruth",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "classificationModels",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "windowSize",
+        type: "uint32",
+      },
+      {
+        internalType: "uint64",
+        name: "meanThreshold",
+        type: "uint64",
+      },
+      {
+        internalType: "uint128",
+        name: "varianceThreshold",
+        type: "uint128",
+      },
+    ],
+    name: "configureDrift",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "segmentCount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint16",
+            name: "parityThreshold",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "opportunityThreshold",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "accuracyThreshold",
+            type: "uint16",
+          },
+        ],
+        internalType: "struct FairnessMetrics.Config",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "configureFairness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "featureCount",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "outputArity",
+        type: "uint8",
+      },
+    ],
+    name: "configureModelSchema",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptModelMetrics",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "enableClassification",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getAlertThresholds",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "criticalScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "warningScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "noticeScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "retrainingScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "lossWarning",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "lossCritical",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AiMonitor_FHE.AlertThresholds",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getClassificationMetrics",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "precision",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "recall",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "f1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "accuracy",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getConfusionMatrix",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "truePositives",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "falsePositives",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "trueNegatives",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "falseNegatives",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedAlert",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "score",
+        type: "uint32",
+      },
+      {
+        internalType: "string",
+        name: "alert",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "retraining",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "alertOnly",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getDriftReveal",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "drifted",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "evaluation",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getDriftStatus",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "referenceCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "currentCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "evaluations",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedDriftFlag",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedAlert",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "level",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "needsRetraining",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getFairnessConfig",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "segmentCount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint16",
+            name: "parityThreshold",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "opportunityThreshold",
+            type: "uint16",
+          },
+          {
+            internalType: "uint16",
+            name: "accuracyThreshold",
+            type: "uint16",
+          },
+        ],
+        internalType: "struct FairnessMetrics.Config",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "segment",
+        type: "uint8",
+      },
+    ],
+    name: "getFairnessReveal",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "parityGapExceeded",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "opportunityGapExceeded",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "accuracyGapExceeded",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isRevealed",
+            type: "bool",
+          },
+        ],
+        internalType: "struct AiMonitor_FHE.FairnessReveal",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getLatestRevealedMetrics",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "accuracy",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "driftScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "errorRate",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "sampleCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getMetricScales",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "accuracyScale",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "lossScale",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct ModelMetrics.MetricScales",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "modelHash",
+        type: "bytes32",
+      },
+    ],
+    name: "getModelIdByHash",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getModelOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getModelSchema",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "featureCount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "outputArity",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct PredictionSchema.Schema",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMonitoredModels",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "getPredictionVectors",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "features",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "euint32[]",
+        name: "outputs",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRevealedMetrics",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "accuracy",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "driftScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "errorRate",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "sampleCount",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "getRevealedMetricsCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isModelViewer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isModelWriter",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "metricRegistry",
+    outputs: [
+      {
+        internalType: "contract MetricRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "modelPerformance",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "encryptedAccuracySum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedDriftScoreSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedErrorRateSum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedSampleCount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "predictionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "predictions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedGroundTruth",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "labelPending",
+        type: "bool",
+      },
+      {
+        internalType: "euint8",
+        name: "encryptedSegment",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processAlertOnlyAnalysis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processConfusionMatrixDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processDriftDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processFairnessEvaluation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processPerformanceAnalysis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedGroundTruth",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "recordEncryptedPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedInputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedPredictions",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedGroundTruths",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "recordEncryptedPredictionBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedFeatures",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedOutputs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedGroundTruth",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedSegment",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "recordEncryptedPredictionVector",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "recordUnlabeledPrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "registerModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAlertOnlyAnalysis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "requestConfusionMatrixDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "requestDriftDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "segment",
+        type: "uint8",
+      },
+    ],
+    name: "requestFairnessEvaluation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "requestModelMetricsDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "predictionId",
+        type: "uint256",
+      },
+    ],
+    name: "requestPerformanceAnalysis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+    ],
+    name: "resetDriftReference",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "criticalScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "warningScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "noticeScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "retrainingScore",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "lossWarning",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "lossCritical",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct AiMonitor_FHE.AlertThresholds",
+        name: "thresholds",
+        type: "tuple",
+      },
+    ],
+    name: "setAlertThresholds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "accuracyScale",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "lossScale",
+        type: "uint32",
+      },
+    ],
+    name: "setMetricScales",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setModelViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setModelWriter",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferModelOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "modelId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAccuracy",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedDrift",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedErrorRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "metricId",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "payload",
+        type: "bytes",
+      },
+    ],
+    name: "updateModelMetrics",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a034620001b757601f620061c138819003918201601f19168301916001600160401b03831184841017620001bb57808492602094604052833981010312620001b757516001600160a01b0381168103620001b7575f606062000061620001cf565b82815282602082015282604082015201526200007c620001cf565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055608052604051615fd19081620001f082396080518181816107d00152610acf0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620001bb5760405256fe60806040526004361015610011575f80fd5b5f60e05f35811c9081624fbbb0146148c6578163027033791461471e578163073c3a521461463857816307e99bff1461440f5781631fb09d901461432157816324b31e63146142af5781632cc3dad61461417f5781632ea67b5d1461414b5781633292f7cd1461410b5781633322b28214613f69578163364e60d214613d4657816343487c8e14613ca0578163466aebdd146139c55781634e960871146138f4578163504f0b49146138da578163526d66801461384b5781635d355fe9146137695781635e3bece41461362b57816361c66fb21461352457816362636d6714613500578163650d3c6314613492578163659e79b11461334e57816367454ddd146131be57816368ebd4e814613155578163725a640c14612f3e57816375762b6f14612ed157816376c274ea14612bbd5781637fe24df614612b245781638e0596a214612b075781638edc6ccd146128b65781638f7a40af146127f05781638fef9ad514612771578163931bcb53146127225781639516507e1461244e57816396779a6f146123eb578163983be082146123a15781639dfdc7de14612021578163aa3e816b14611e39578163b7353bbf14611c16578163b9b1f6bd14611b77578163bc6ed6be1461191d578163c0bd5b7a14611822578163c4bf44a314611471578163c74788d414611339578163cc927405146112fa578163ce558e1714611281578163d085477414611006578163d17af17714610be9578163d401472614610afe578163d5900ef914610ab9578163da1f12ab14610a9c578163dbff47d0146108ce578163e54502c514610857578163e5f525001461061857508063e98a7ecc146105555763fdc0d76a14610284575f80fd5b346105525760208060031936011261054e576001600160401b039060043582811161054a576102b7903690600401614b7c565b916102ca6102c533856150e6565b615297565b604051828185516102de8183858a01614af1565b8101600281520301902090604051906102f6826149c1565b60048252838201926080368537805461030e846152d6565b5260036001916001810154610322866152e3565b526002810154610331866152f3565b52015461033d84615303565b525f915f80516020615fa58339815191529384549560018060a01b03805f80516020615f858339815191525416803b15610546575f6040518092637d6e912360e11b82528c6004830152818381610397602482018b615b7f565b03925af1801561053b57610528575b505f80516020615f658339815191525416803b1561052457856040518092633263b83b60e01b82528a6004830152606060248301528183816103eb606482018a615b7f565b638edc6ccd60e01b604483015203925af1801561051957908691610501575b508790525f80516020615f4583398151915280895260408620546104ef5787865288526040852091519283116104db57600160401b83116104db5781548383558084106104b4575b50908452868420845b8381106104a35750505050508154905f19821461048f575060010190558352600e90526040822061048c9190614e53565b80f35b634e487b7160e01b81526011600452602490fd5b82518282015591880191840161045b565b82865284848a882092830192015b8281106104d0575050610452565b5f81550185906104c2565b634e487b7160e01b85526041600452602485fd5b604051633f06d22b60e01b8152600490fd5b61050a90614993565b61051557845f61040a565b8480fd5b6040513d88823e3d90fd5b8580fd5b610533919650614993565b5f945f6103a6565b6040513d5f823e3d90fd5b5f80fd5b8380fd5b5080fd5b80fd5b5034610552577f6c4204b68e198910a8fec92c5a1633289392663c3d0ad050a8705a8f76e5e37161058536614cdc565b90929160405160026105d6602084516105c5828701916105a6818885614af1565b8601601b8152868460018060a01b039889930301902054163314614d5d565b604051809381928851928391614af1565b8101601b81520301902001941693845f526020526106038260405f209060ff801983541691151516179055565b610612604051928392836151b2565b0390a280f35b90503461054e57366003190112610552576001600160401b0360043581811161085357610649903690600401614b7c565b60843582811161054a57610661903690600401614c23565b9190928460a43582811161054e5761067d903690600401614c23565b95909460c435938411610853576106c561069d6020953690600401614c23565b9590966106b26106ad338361513f565b615018565b8160405193828580945193849201614af1565b810160028152030190209073__$080d3d086a8af7191d610c3e9f2f17760b$__3b1561054a5783916107306040519485938493630c69929360e11b8552600485015260243560248501526044356044850152606435606485015260a0608485015260a4840191615406565b038173__$080d3d086a8af7191d610c3e9f2f17760b$__5af480156108305761083b575b5050916107cb6107a7926020946107b960405194610771866149a6565b60078652666d65747269637360c81b8887015260405163c79bffc160e01b81526060600482015298899788976064890190614b12565b87810360031901602489015291615406565b84810360031901604486015291615406565b0381857f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165af1801561083057610808575080f35b602090813d8311610829575b61081e8183614a2e565b810103126105525780f35b503d610814565b6040513d84823e3d90fd5b61084790949294614993565b6105155791845f610754565b8280fd5b823461055257602036600319011261055257600435906001600160401b03821161055257608061088f60206106b23660048701614b7c565b8101600a81520301902060ff8154169060018101549060ff60036002830154920154169160405193151584526020840152604083015215156060820152f35b90503461054e57608036600319011261054e576001600160401b0360043581811161054a57610901903690600401614b7c565b9060643590811161054a5761091a903690600401614c23565b90926109296106ad338561513f565b61095d610955845160208601209561094d610945368784614b37565b602435615bb2565b943691614b37565b604435615bb2565b926109683084615ef0565b6109723384615ef0565b61097c3085615ef0565b6109863385615ef0565b6109908382615d82565b5f549360018501809511610a8857600785610a5d610a7595610a457f9df28e950ffaa517a8284c90ee62b66ac7067d6338a5bf2225f6133c8a09e11698845f55604051966109dd88614a12565b8588526020880191825260408801908152606088015f8152608089019142835260a08a01938b855260c08b0196600188528b01985f8a525f52600160205260405f209a518b555160018b01555160028a01555160038901555160048801555160058701614e53565b511515600685019060ff801983541691151516179055565b51910155604051918291606083526060830190614b12565b426020830152600160408301520390a380f35b634e487b7160e01b5f52601160045260245ffd5b823461055257806003193601126105525760206040516127118152f35b82346105525780600319360112610552576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b8234610552576020366003190112610552576004356001600160401b03811161054e57610b2f903690600401614b7c565b6040516020818351610b448183858801614af1565b8101600681520301902054918215610bae575f19830192831161048f57610baa610b6e8484614f7d565b916040959395519586958691909360809396959460a084019763ffffffff80948180941687521660208601521660408401521660608201520152565b0390f35b60405162461bcd60e51b81526020600482015260136024820152724e6f2072657665616c6564206d65747269637360681b6044820152606490fd5b82346105525760c0366003190112610552576004356001600160401b03811161054e57610c1a903690600401614b7c565b6024356001600160401b03811161085357610c39903690600401614bf3565b6044356001600160401b03811161051557610c58903690600401614bf3565b9290916064356001600160401b03811161100257610c7a903690600401614bf3565b92906084356001600160401b038111610fb457610c9b903690600401614bf3565b93909660a4356001600160401b038111610ffe57610cbd903690600401614c23565b969097610ccd6106ad338d61513f565b60018711610fc7578b94610d6992610d44610d5693610cfc8f6020908160405193828580945193849201614af1565b8101601881520301902096610d326040519b8c9a8b9a635315935f60e11b8c5260048c015260a060248c015260a48b01916153d6565b8881036003190160448a0152916153d6565b858103600319016064870152916153d6565b8281036003190160848401528789615406565b038173__$ff02607b538cde0fc1c807c95ebc6201a7$__5af48015610fbc57879688928992610f42575b509081610dbb92516020820120610da98a6152d6565b5190610db4866152d6565b51926156a3565b958688526019602052604088208151916001600160401b038311610f2e57600160401b8311610f2e578154838355808410610f07575b5060200190895260208920895b838110610ef35750505050858752601a602052604087208151916001600160401b038311610edf57600160401b8311610edf578154838355808410610eb9575b5060200190885260208820885b838110610ea5575050505060018114610e62578580f35b15610e915791610e7b610e8292610e8895943691614b37565b9035615cba565b9061583e565b81808080808580f35b634e487b7160e01b85526032600452602485fd5b600190602084519401938184015501610e4b565b828a528360208b2091820191015b818110610ed45750610e3e565b5f8155600101610ec7565b634e487b7160e01b89526041600452602489fd5b600190602084519401938184015501610dfe565b828b5260208b20908482015b8183018110610f23575050610df1565b5f8155600101610f13565b634e487b7160e01b8a52604160045260248afd5b97509150503d8088883e610f568188614a2e565b8601606087820312610fb85786516001600160401b038111610fb45781610f7e918901615375565b916020880151916001600160401b038311610fb057610fa4604091610dbb948b01615375565b98015192979291610d93565b8980fd5b8880fd5b8780fd5b6040513d89823e3d90fd5b60405162461bcd60e51b815260206004820152600f60248201526e0a6c6d0cadac240dad2e6dac2e8c6d608b1b6044820152606490fd5b8a80fd5b8680fd5b82346105525760208060031936011261054e576001600160401b039060043582811161054a5761103a903690600401614b7c565b916110486102c533856150e6565b6040518281855161105c8183858a01614af1565b8101600981520301902090600982015415611246576040519061107e826149a6565b6001808352600885840194863687370154611098846152d6565b525f915f80516020615fa58339815191529384549560018060a01b03805f80516020615f858339815191525416803b15610546575f6040518092637d6e912360e11b82528c60048301528183816110f2602482018b615b7f565b03925af1801561053b57611233575b505f80516020615f658339815191525416803b1561052457856040518092633263b83b60e01b82528a600483015260606024830152818381611146606482018a615b7f565b63659e79b160e01b604483015203925af180156105195790869161121f575b508790525f80516020615f4583398151915280895260408620546104ef5787865288526040852091519283116104db57600160401b83116104db5781548383558084106111f8575b50908452868420845b8381106111e75750505050508154905f19821461048f575060010190558352600f90526040822061048c9190614e53565b8251828201559188019184016111b6565b82865284848a882092830192015b8281106112145750506111ad565b5f8155018590611206565b61122890614993565b61051557848b611165565b61123e919650614993565b5f948b611101565b60405162461bcd60e51b8152600481018490526013602482015272273790323934b33a1032bb30b63ab0ba34b7b760691b6044820152606490fd5b823461055257602036600319011261055257600435906001600160401b0382116105525760806112b960206106b23660048701614b7c565b8101600981520301902063ffffffff908160028201541691600582015416906008600982015491015491604051938452602084015260408301526060820152f35b8234610552576020366003190112610552576113256040610baa926004358152601c60205220614a4f565b604051918291602083526020830190614b12565b8234610552576020908160031936011261055257600435906001600160401b0382116105525750816106b2611372923690600401614b7c565b810160128152030190209060ff6002830154161561142d57608091549063ffffffff91828116926114178183851c16946113fb838560601c16966113f66113c26113bc8386615057565b85615b56565b986113f66113d96113d38388615057565b87615b56565b976114016401fffffffe8b60011b166113fb856113f68984615057565b615057565b90615b56565b9960401c16936114118588615057565b96615057565b9260405194855284015260408301526060820152f35b6064906040519062461bcd60e51b82526004820152601c60248201527f4e6f2072657665616c656420636f6e667573696f6e206d6174726978000000006044820152fd5b82346105525760209081600319360112610552576004358082526001928381526114ad6102c56114a660056040872001614a4f565b33906150e6565b6114b682615a5d565b936114c360058601615207565b838552600583526040852091808701549160036002890154980154905463ffffffff91604051946315bb812560e01b865260048601526024998a860152604485015281811660648501528181871c166084850152818160401c1660a485015260601c1660c483015260408260e48173__$370ae17a85aadebd98e6589e81388d83f1$__5af491821561051957869087936117e7575b5061156d908285019384558085553090615ef0565b611578308354615ef0565b611583338454615ef0565b61158e338354615ef0565b604051916001600160401b039060608401828111858210176117d45760405260028452858401946040368737546115c4856152d6565b52546115cf846152e3565b525f905f80516020615fa58339815191529384549560018060a01b03805f80516020615f858339815191525416803b15610546575f8d61162b928c83604051809681958294637d6e912360e11b8452600484015282018b615b7f565b03925af1801561053b576117c1575b505f80516020615f658339815191525416803b1561051557604051633263b83b60e01b8152600481018990526060818e01529085908290818381611681606482018a615b7f565b6301fb09d960e41b604483015203925af180156117b6579085916117a2575b508790525f80516020615f4583398151915280895260408520546104ef57878552885260408420915192831161178f57600160401b831161178f578154838355808410611768575b5090835286832084845b8481106117565750505050508254905f1982146117435750600c959697500190558452528060408320557f71e0ae524d2748f27d4b8d449608a026b199ad25c4f8c7a7f283e3751a29d1508280a280f35b634e487b7160e01b815260116004528890fd5b898451940193818401550185906116f2565b82855285848a872092830192015b8281106117845750506116e8565b5f8155018690611776565b634e487b7160e01b845260416004528a84fd5b6117ab90614993565b61054a57838c6116a0565b6040513d87823e3d90fd5b6117cc919550614993565b5f938c61163a565b89634e487b7160e01b5f5260416004525ffd5b9250506040823d60401161181a575b8161180360409383614a2e565b81010312610524578151918401519161156d611558565b3d91506117f6565b82346105525761183136614c50565b6040519180519260209261186c8484019561184d818589614af1565b8301601b8152838660018060a01b039586930301902054163314614d5d565b169283156118e8577ef7c8f5d9850af04caaf9079101e3c7e6f32ab8db77a1c9698b944df7948beb916118ae846118e293604051809381928651928391614af1565b8101601b815203019020856bffffffffffffffffffffffff60a01b8254161790556040519182918583523395830190614b12565b0390a380f35b60405162461bcd60e51b815260048101849052600d60248201526c24b73b30b634b21037bbb732b960991b6044820152606490fd5b8234610552576020908160031936011261055257600435808252600192600181526119536102c56114a660056040872001614a4f565b61195c82615a5d565b60405190611969826149dc565b6003825260038383019160603684376001810154611986856152d6565b526002810154611995856152e3565b5201546119a1836152f3565b525f955f80516020615fa58339815191529182549360018060a01b03805f80516020615f858339815191525416803b15610546575f6040518092637d6e912360e11b82528a60048301528183816119fb602482018a615b7f565b03925af1801561053b57611b64575b5089905f80516020615f658339815191525416803b1561054e57816040518092633263b83b60e01b825289600483015260606024830152818381611a51606482018a615b7f565b631c96990360e21b604483015203925af1801561083057611b50575b508590525f80516020615f4583398151915280875260408a20546104ef57858a528652604089209051916001600160401b038311610f2e57600160401b8311610f2e578154838355808410611b29575b50908952858920895b838110611b185750505050508054955f19871461048f57506001600b9495960190558452528060408320557f2b9d987ac92a964c6cd46dbb1fcd7314271b9f0aad7792d2df39472c389ee2158280a280f35b825182820155918701918401611ac6565b828b528484898d2092830192015b828110611b45575050611abd565b5f8155018590611b37565b611b5990614993565b610fb457888a611a6d565b611b6f919a50614993565b5f988a611a0a565b82346105525760a0366003190112610552576001600160401b0360043581811161085357611ba9903690600401614b7c565b60843591821161085357611bc4611c12923690600401614c23565b90611bd26106ad338561513f565b82516020840120611c0c611c04611bed610945368787614b37565b93611bfc610955368884614b37565b953691614b37565b606435615bb2565b936156a3565b5080f35b8234610552576060366003190112610552576004356044356001600160401b03811161085357611c4a903690600401614c23565b82849392935260019260209360018552611c766106ad611c6f600560408a2001614a4f565b339061513f565b838652600185526040862091600683019360ff85541615611dfb57610945611ce892611ca3923691614b37565b611cad3082615ef0565b611cb73382615ef0565b80600385015560ff19948581541690556005840193611ce3826002830154611cde88614a4f565b6158ae565b61595d565b604051918691815491611cfa8361495b565b9283865288808701976001831692835f14611dbb57505050600114611d5a575b50505090611d4c817f5046ac51c21d97708ebd2feea2741534376f5dcb28332aae3269e52399f76b2f94930382614a2e565b51902092604051428152a380f35b885286882094939250869188915b818310611da4575093945091925090820101611d4c827f5046ac51c21d97708ebd2feea2741534376f5dcb28332aae3269e52399f76b2f611d1a565b865485840185015295860195889390920191611d68565b16885293151560051b86019093019350611d4c92508491507f5046ac51c21d97708ebd2feea2741534376f5dcb28332aae3269e52399f76b2f9050611d1a565b60405162461bcd60e51b8152600481018890526016602482015275131858995b08185b1c9958591e48185d1d1858da195960521b6044820152606490fd5b823461055257611e4836614bad565b909180845260209060138252611e77611e6360408720614a4f565b93611e7085511515614db2565b8583615426565b845260138152611e8960408520614fd0565b60808380518101031261054a57611ea18382016151f6565b92611eae604082016151f6565b93611ebb606083016151f6565b91608001611ec8906151f6565b90604051611ed5816149f7565b8563ffffffff80931697888352838784019116938482528060408501971695868852818060608701921698898352816080880195428752818d8060a08c019a60018c526040519283828193519283910191611f2f92614af1565b8101601281520301902099511663ffffffff198a54161789555116611f7190889067ffffffff0000000082549160201b169067ffffffff000000001916179055565b51865463ffffffff60401b1916911660401b63ffffffff60401b1617855551845463ffffffff60601b1916911660601b63ffffffff60601b161783555160018301555115159060020190611fd0919060ff801983541691151516179055565b60405195869560a0875260a08701611fe791614b12565b94860152604085015260608401526080830152037f0c010f90356e3d8855df752efea6a428dc5a234f67b3fe94e01239d58d3ffa5791a180f35b82346105525760208060031936011261054e576004356001600160401b03811161085357612053903690600401614b7c565b80511561236b576040518151908383019161206f818385614af1565b601b90820190815281900384019020546001600160a01b0316612326576040518381845161209e818387614af1565b8101601b815203019020336bffffffffffffffffffffffff60a01b825416179055815181208452601c83526120d68260408620614e53565b601d54600160401b8110156104db576001810180601d55811015610e91578261212491601d87527f6d4407e7be21f808e6509aa9fa9143369579dd7d760fe20a2c09680fc146134f01614e53565b8373__$080d3d086a8af7191d610c3e9f2f17760b$__6040518581865161214c818389614af1565b810160028152030190206040518681875161216881838a614af1565b81016003815203019020823b1561054a5760448492604051948593849263a52637c160e01b8452600484015260248301525af4801561083057612312575b5050816122ff6106129261227f7ffb136e664a5a095e1220d33773fe2d825de4095dfb4fb5d0515927a144874583956122df604051936121e5856149f7565b6032855289850190604682526122bf60408701605581528c61229f61223160608b0192603c845260808c0196611388885260a08d019a6127108c52604051938492839251928391614af1565b81016008815203019020998a9363ffffffff9a8b80998197828096511663ffffffff1982541617905551168d9067ffffffff0000000082549160201b169067ffffffff000000001916179055565b518b5463ffffffff60401b1916911660401b63ffffffff60401b16178a55565b51885463ffffffff60601b1916911660601b63ffffffff60601b16178755565b51855463ffffffff60801b1916911660801b63ffffffff60801b16178455565b51825463ffffffff60a01b1916911660a01b63ffffffff60a01b16179055565b6040519182918583523395830190614b12565b61231b90614993565b61054a5783856121a6565b60405162461bcd60e51b815260048101849052601860248201527f4d6f64656c20616c7265616479207265676973746572656400000000000000006044820152606490fd5b60405162461bcd60e51b815260048101839052600e60248201526d115b5c1d1e481b5bd9195b081a5960921b6044820152606490fd5b823461055257602036600319011261055257600435906001600160401b0382116105525760206123d8816106b23660048701614b7c565b8101600681520301902054604051908152f35b8234610552576020366003190112610552576124409060043581526019602052610baa61242c612426604080852094601a6020522093615327565b92615327565b604051938493604085526040850190614d2a565b908382036020850152614d2a565b82346105525760208060031936011261054e576001600160401b039060043582811161054a57612482903690600401614b7c565b916124906102c533856150e6565b60405160ff8451918481818801946124a9818388614af1565b810160108152030190205416156126dd57826124d091604051809381928851928391614af1565b8101601181520301902090604051906124e8826149c1565b600482528382019260803685378054612500846152d6565b5260036001916001810154612514866152e3565b526002810154612523866152f3565b52015461252f84615303565b525f915f80516020615fa58339815191529384549560018060a01b03805f80516020615f858339815191525416803b15610546575f6040518092637d6e912360e11b82528c6004830152818381612589602482018b615b7f565b03925af1801561053b576126ca575b505f80516020615f658339815191525416803b1561052457856040518092633263b83b60e01b82528a6004830152606060248301528183816125dd606482018a615b7f565b63aa3e816b60e01b604483015203925af18015610519579086916126b6575b508790525f80516020615f4583398151915280895260408620546104ef5787865288526040852091519283116104db57600160401b83116104db57815483835580841061268f575b50908452868420845b83811061267e5750505050508154905f19821461048f575060010190558352601390526040822061048c9190614e53565b82518282015591880191840161264d565b82865284848a882092830192015b8281106126ab575050612644565b5f815501859061269d565b6126bf90614993565b61051557848b6125fc565b6126d5919650614993565b5f948b612598565b60405162461bcd60e51b815260048101849052601a60248201527f4e6f74206120636c617373696669636174696f6e206d6f64656c0000000000006044820152606490fd5b823461055257602036600319011261055257600435906001600160401b03821161055257602060ff61275b826106b23660048801614b7c565b8101601081520301902054166040519015158152f35b823461055257602036600319011261055257604090600435815260046020522063ffffffff8154166127aa600160028401549301614a4f565b9160ff6127c9604051948594855260a0602086015260a0850190614b12565b9181811615156040850152818160081c161515606085015260101c16151560808301520390f35b8234610552576060366003190112610552576004356044356001600160401b03811161085357612824903690600401614c23565b919081845260016020526128436106ad611c6f60056040882001614a4f565b8184526001602052600760408520015461287157612869610e829161048c943691614b37565b602435615cba565b60405162461bcd60e51b815260206004820152601860248201527f5365676d656e7420616c72656164792061737369676e656400000000000000006044820152606490fd5b8234610552576128c536614bad565b91808495929552602090600e82526128f66128e260408720614a4f565b946128ef86511515614db2565b8783615426565b8452600e815261290860408520614fd0565b60808580518101031261054a57612958612923828701615313565b61296461293260408901615313565b9161295e61294e608061294760608d01615313565b9b016151f6565b809581809461581b565b9461581b565b9861581b565b60405197612971896149c1565b63ffffffff809316895282858a01911681528260408a01921682528260608a0194169384815260808a01904282526040518781816129b58d83815193849201614af1565b81016006815203019020918254600160401b811015612af3578060016129de9201855584614f50565b929092612adf578c518354865188519351938a1660401b63ffffffff60401b16908a1660201b67ffffffff00000000166fffffffffffffffffffffffffffffffff19909216928a166fffffffffffffffffffffffff00000000191692909217171790871660601b63ffffffff60601b1617825560019051910155545f19810193908411612acb5780807fdf1a13a12deee86fd8ad899c0652dc94a5a7999f4a412ade8308449f3d2ccc729a9b511692511692511692612aa760405198888a998a52890190614b12565b9587015260408601526060850152608084015260a08301524260c08301520390a180f35b634e487b7160e01b89526011600452602489fd5b634e487b7160e01b8c5260048c905260248cfd5b634e487b7160e01b8c52604160045260248cfd5b823461055257806003193601126105525760209054604051908152f35b82346105525760208060031936011261054e57600435916001600160401b0383116105525750612b8281612b5e6040943690600401614b7c565b5f828651612b6b816149a6565b828152015281855193828580945193849201614af1565b8101600381520301902090825191612b99836149a6565b5463ffffffff908183818316958681520191841c1681528451938452511690820152f35b823461055257612bcc36614ca1565b612bd96102c533846150e6565b6040519081835160209381612bf2869383858a01614af1565b81016014815203019020926040519363299c241560e01b8552600485015260ff60249216938483820152606092838260448173__$9fa67c90d2d6291f3cc4c949ff1aca7d78$__5af4908115610fbc57879188938991612e93575b50612c583084615ef0565b612c623085615ef0565b612c6c3082615ef0565b60405193612c79856149dc565b600385528785019387368637612c8e866152d6565b52612c98856152e3565b52612ca2846152f3565b525f915f80516020615fa58339815191529384549660018060a01b03805f80516020615f858339815191525416803b15610546575f6040518092637d6e912360e11b82528d6004830152818381612cfb8c82018b615b7f565b03925af1801561053b57612e80575b505f80516020615f65833981519152541690813b15610524578590604051928391633263b83b60e01b83528b600484015287830152818381612d4f6064820189615b7f565b631991594160e11b604483015203925af180156117b657908591612e6c575b508790525f80516020615f4583398151915280895260408520546104ef578785528852604084209051916001600160401b038311612e5957600160401b8311612e59578154838355808410612e34575b50908452878420845b838110612e2257505050508254915f198314612e11575050600101905581855260168352604085206017939291612dfd91614e53565b845252604082209060ff1982541617905580f35b634e487b7160e01b81526011600452fd5b82518282015591890191600101612dc7565b828652838a872091820191015b818110612e4e5750612dbe565b5f8155600101612e41565b634e487b7160e01b855260416004528385fd5b612e7590614993565b61054a57838b612d6e565b612e8b919650614993565b5f948c612d0a565b92505091508381813d8311612eca575b612ead8183614a2e565b810103126110025780519160408683015192015192919289612c4d565b503d612ea3565b823461055257602036600319011261055257600435906001600160401b038211610552576080612f0960206106b23660048701614b7c565b810160028152030190208054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b823461055257612f4d36614bad565b91908184526020600b8152604085205493612f69851515614db2565b84865260048252612f946040872091846002840196612f8f60ff895460081c1615614df0565b615426565b848652600d82526040862060ff19815416905560608380518101031261052457612fbf8284016151f6565b91612fd86060612fd1604087016151f6565b95016151f6565b9260018252612fec600560408a2001615207565b9463ffffffff9485918183168382161115613147579061300b916157d6565b1690606482029180830460641490151715612acb57613037919085908181161561313f575b16906157ec565b6064811061310857509180916130926130896130ad9695848b5b168063ffffffff19865416178555858c92895490828260401c1684106130ff575b8183911c1683106130ef575b16116130e1576155fc565b60018301614e53565b5416915460601c1611829060ff801983541691151516179055565b805461ff0019166101001790557f491b70d4d13a775a1bd6b163d8692a58b815071befb8d3c813f9549815efc8f58280a280f35b6130ea9061580a565b6155fc565b926130f99061580a565b9261307e565b60019450613072565b6064036064811161312b579161309261308985949385806130ad99989616613051565b634e487b7160e01b88526011600452602488fd5b506001613030565b613150916157d6565b61300b565b823461055257602036600319011261055257600435906001600160401b0382116105525760206131883660048501614b7c565b8161319c6040519283815193849201614af1565b601b90820190815281900382019020546040516001600160a01b039091168152f35b82346105525760a0366003190112610552576004356001600160401b03811161054e576131ef903690600401614b7c565b608036602319011261054e576040516132338251916020840192613214818386614af1565b810190601b825260208160018060a01b03930301902054163314614d5d565b61325f602073__$9fa67c90d2d6291f3cc4c949ff1aca7d78$__92604051809381928751928391614af1565b81016014815203019020813b1561054a57604051906334f1be8360e11b8252600482015260ff61328d614c91565b1660248201526044359161ffff92838116809103610546576044830152606435838116809103610546576064830152608435928316809303610546578160a481879593869460848301525af480156108305761333a575b505060243560ff8116809103610853577f053898728b68314568662e0f23cdf5f6e95f45d30c3d93004070680a02f5533b9161332e91604051928392604084526040840190614b12565b9060208301520390a180f35b61334390614993565b61054e5781836132e4565b82346105525761335d36614bad565b828493929352602091600f835261338661337960408720614a4f565b92611e7084511515614db2565b8452600f825261339860408520614fd0565b818380518101031261054a5761348c6133d3837fb56bd2a8b102285b7c00476bdb8e6bdd51f19b8cbdfbfce460fe7a97edd2f0169501614e30565b613480604051946003600987838189516133f181848d019d8e614af1565b8101848152030190200154966040519261340a846149dc565b851515845280840189815261345e61343e60408701934285526060880195600187528c604051938492839251928391614af1565b8101600a81520301902095511515869060ff801983541691151516179055565b51600185015551600284015551151591019060ff801983541691151516179055565b604051938493846151d2565b0390a180f35b8234610552577e10dd05bae91a2d98a1709252f57c0707fb7952b694bcfbe7a4b0a8b063072d6134c136614cdc565b90929160405160016105d6602084516105c5828701916134e2818885614af1565b8601601b81528684878060a01b039889930301902054163314614d5d565b823461055257602061351a61351436614c50565b9061513f565b6040519015158152f35b82346105525760208060031936011261054e576004356001600160401b038111610853578160c09361355d61359b933690600401614b7c565b9060a060405161356c816149f7565b828152828582015282604082015282606082015282608082015201528160405193828580945193849201614af1565b81016008815203019020604051906135b2826149f7565b5463ffffffff8092818084169586835281818401918187821c1683526040850190828860401c168252826060870194818a60601c1686528160a060808a0199828d60801c168b52019a60a01c168a526040519b8c525116908a0152511660408801525116606086015251166080840152511660a0820152f35b8234610552576060366003190112610552576004356001600160401b03811161054e5761365c903690600401614b7c565b613664614c91565b9060443560ff811680910361054657836040519361368e845195602086019661321481838a614af1565b6136ba602073__$ff02607b538cde0fc1c807c95ebc6201a7$__96604051809381928951928391614af1565b81016018815203019020853b156108535760ff916064849260405194859384926307b6232160e21b8452600484015216988960248301528760448301525af4801561083057613751575b507fd2a04ac317e56bcc358b24781045aad1a81ed03f8bb9fac2bcaa628f20c00770613740848685604051938493606085526060850190614b12565b91602084015260408301520390a180f35b61375d90939293614993565b61054a57908385613704565b823461055257608060a09160ff6137bf61378236614ca1565b939060405191613791836149c1565b8083526020968382898096015282604082015282606082015201528160405193828580945193849201614af1565b8101601581520301902091165f52815260405f20604051906137e0826149c1565b805460ff811615159384845280840160ff8360081c161515815260ff604086019360101c1615158352608060ff600260018701549660608901978852015416950194151585526040519586525115159085015251151560408401525160608301525115156080820152f35b823461055257602036600319011261055257600435906001600160401b0382116105525760c061388360206106b23660048701614b7c565b8101601281520301902080549063ffffffff9060ff600260018301549201541691604051938181168552818160201c166020860152818160401c16604086015260601c1660608401526080830152151560a0820152f35b823461055257602061351a6138ee36614c50565b906150e6565b82346105525760208060031936011261054e576004356001600160401b038111610853578160809361392d61395f933690600401614b7c565b90606060405161393c816149dc565b828152828582015282604082015201528160405193828580945193849201614af1565b8101601481520301902060405190613976826149dc565b5460ff81169283835261ffff92818480938301818660081c1681528160606040860195828960181c168752019660281c1686526040519788525116908601525116604084015251166060820152f35b90503461054e57366003190112610552576004356001600160401b03811161054e576139f5903690600401614b7c565b9060c036602319011261055257604051918051613a3b60209485840192613a1d818386614af1565b810190601b8252868160018060a01b03930301902054163314614d5d565b613a43615074565b9063ffffffff918280613a54615087565b169116111580613c83575b80613c6f575b80613c5b575b15613c1657613a786150c0565b8280613a826150d3565b16911611613bd1578491613ac77f42ae2c795f77ffda52e4f28a2371c69a324040f31e234ad8a8bfa002a417f2db9596613bbd93604051809381928951928391614af1565b8101600881520301902090613ada615074565b1663ffffffff19825416178155613b14613af2615087565b825467ffffffff00000000191660209190911b67ffffffff0000000016178255565b613b3f613b1f61509a565b825463ffffffff60401b191660409190911b63ffffffff60401b16178255565b613b6a613b4a6150ad565b825463ffffffff60601b191660609190911b63ffffffff60601b16178255565b613b95613b756150c0565b825463ffffffff60801b191660809190911b63ffffffff60801b16178255565b613b9d6150d3565b815463ffffffff60a01b191660a09190911b63ffffffff60a01b16179055565b61348c604051928284938452830190614b12565b60405162461bcd60e51b815260048101869052601760248201527f496e76616c6964206c6f7373207468726573686f6c64730000000000000000006044820152606490fd5b60405162461bcd60e51b815260048101869052601860248201527f496e76616c69642073636f7265207468726573686f6c647300000000000000006044820152606490fd5b50606482613c676150ad565b161115613a6b565b50606482613c7b61509a565b161115613a65565b50613c8c615087565b8280613c9661509a565b1691161115613a5f565b8234610552576020366003190112610552576004356001600160401b03811161054e576020613cd6613d1e923690600401614b7c565b60405190613d0d81519284830193613cef818387614af1565b810190601b8252858160018060a01b03930301902054163314614d5d565b604051938492839251928391614af1565b810160098152030190206005600282019163ffffffff19928381541690550190815416905580f35b82346105525760a0366003190112610552576001600160401b0360043581811161085357613d78903690600401614b7c565b60243582811161054a57613d90903690600401614bf3565b60449391933582811161052457613dab903690600401614bf3565b9094606435848111610fb857613dc5903690600401614bf3565b94608435908111610fb457613dde903690600401614c23565b613dee6106ad999299338a61513f565b8515613f365785851480613f2d575b15613ef05787516020890120988a549760019660018a01809a11613edc578c5b8c8a8210613e73578e907fa5c55730f8bd77022e68bc3f200b8098f084110b676597939481334e622a81c7613e628f8f8f604051938493606085526060850190614b12565b91602084015260408301520390a280f35b90613ed58d89898d958f8b8f8c613ecc8a8e613ec68f83613eba91613eb4613ea283611c0c9d613eae9c615064565b35613eae368d8c614b37565b90615bb2565b9c615064565b35613eae368988614b37565b99615064565b35923691614b37565b5001613e1d565b634e487b7160e01b8d52601160045260248dfd5b60405162461bcd60e51b8152602060048201526015602482015274084c2e8c6d040d8cadccee8d040dad2e6dac2e8c6d605b1b6044820152606490fd5b50858714613dfd565b60405162461bcd60e51b815260206004820152600b60248201526a08adae0e8f240c4c2e8c6d60ab1b6044820152606490fd5b823461055257613f7836614bad565b82845260209260168452613fa5613f9160408720614a4f565b92613f9e84511515614db2565b8483615426565b84526017835260ff6040852054169260168152613fc460408620614fd0565b606083805181010312610515577fc0d0b2d110dd02fe57608d7423f2d73fb0188eda78fe6f521690126b65c6d0d89383614002836140f29601614e30565b61401a606061401360408501614e30565b9301614e30565b926140de6040519261402b846149c1565b15159283815260028888830196151596878152604084019815159889815260608501914283526140718c6080880195600187528160405193828580945193849201614af1565b81016015815203019020885f528c5261409d60405f2096511515879060ff801983541691151516179055565b5115159061ff0062ff000087549251151560101b169260081b169062ffff0019161717845551600184015551151591019060ff801983541691151516179055565b60405196879660a0885260a0880190614b12565b948601526040850152606084015260808301520390a180f35b823461055257604036600319011261055257600435906001600160401b03821161055257610baa610b6e6141423660048601614b7c565b60243590614f7d565b8234610552576020366003190112610552576040809160043581526005602052206001815491015482519182526020820152f35b8234610552576060366003190112610552576004356001600160401b03811161054e576141b0903690600401614b7c565b6141b8614b9a565b9060443563ffffffff808216809203610546578490604051946141e7855196602087019761321481838b614af1565b614213602073__$080d3d086a8af7191d610c3e9f2f17760b$__97604051809381928a51928391614af1565b8101600381520301902090863b1561054a57606484926040519485938492630a00c91f60e11b8452600484015216988960248301528760448301525af4801561083057614297575b507f122d955ddb12d87e2713bcf4c84cf871fd32e46aec5110d44005ad409cea304d613740848685604051938493606085526060850190614b12565b6142a390939293614993565b61054a5790838561425b565b82346105525760208060031936011261054e57600435916001600160401b03831161055257506142e981612b5e6040943690600401614b7c565b810160188152030190209060ff835192614302846149a6565b54818381831695868152019160081c1681528451938452511690820152f35b82346105525761433036614bad565b828452600c6020526040842054929161434a841515614db2565b83855260046020526143716040862092826002850195612f8f60ff885460081c1615614df0565b838552600d6020526040852060ff1981541690556040818051810103126105155760208101519060ff82168203610524576143d99260016143c06143ba60406143c79501614e30565b946155fc565b9101614e53565b829060ff801983541691151516179055565b805462ffff001916620101001790557f491b70d4d13a775a1bd6b163d8692a58b815071befb8d3c813f9549815efc8f58280a280f35b8234610552576080366003190112610552576001600160401b0360043581811161085357614441903690600401614b7c565b614449614b9a565b9060443591838316809303610515576064356001600160801b03811680910361052457604051938351926020936144a785870191614488818a85614af1565b8801601b8152888760018060a01b039a8b930301902054163314614d5d565b63ffffffff8092169182156145fd57604051916060830199838b10908b11176145e95761458b6145d59961459c9489947fd69b843b1d6df04e7aa5ee90522243364f773c3828acbd59fc47884a623643d19d6040528782528582019089825260408301908b82528d8860405180925161452181838d614af1565b810160078152030190209351166bffffffffffffffff0000000084549351891b16916001600160801b0360601b905160601b169263ffffffff60e01b161717179055604051908a51614574818487614af1565b820191601b83528581339403019020541614614d5d565b604051809381928a51928391614af1565b810160098152030190206005600282019163ffffffff199283815416905501908154169055604051958695608087526080870190614b12565b93850152604084015260608301520390a180f35b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b8152600481018790526013602482015272496e76616c69642077696e646f772073697a6560681b6044820152606490fd5b8234610552578060031936011261055257601d5461465581614d9b565b906146636040519283614a2e565b808252601d835260209283830191817f6d4407e7be21f808e6509aa9fa9143369579dd7d760fe20a2c09680fc146134f845b8383106146fa5750505050604051928484019085855251809152604084019460408260051b8601019392955b8287106146ce5785850386f35b9091929382806146ea600193603f198a82030186528851614b12565b96019201960195929190926146c1565b600188819261470c859b9a989b614a4f565b81520192019201919096939596614695565b82346105465760209081600319360112610546576004356001600160401b03811161054657614751903690600401614b7c565b60405161476982519185840192613a1d818386614af1565b60ff6040518581855161477d818388614af1565b810160108152030190205416614881576040518481845161479f818387614af1565b81016010815203019020600160ff198254161790556147df8473__$7b060f15ba0dbc425b4a329b82e1932c40$__92604051809381928751928391614af1565b81016011815203019020813b15610546575f9060246040518094819362aa031f60e61b835260048301525af4801561053b5761484e575b507f107242f00fbe784c23c3052a52e555e73422e03a5a6f2bde3013b1669f2d8599919261348c604051928284938452830190614b12565b7f107242f00fbe784c23c3052a52e555e73422e03a5a6f2bde3013b1669f2d8599925061487a90614993565b5f91614816565b60405162461bcd60e51b815260048101859052601e60248201527f436c617373696669636174696f6e20616c726561647920656e61626c656400006044820152606490fd5b34610546576020366003190112610546576004355f52600160205260405f2080549060018101549160028201549361494c60038401549260048501549061490f60058701614a4f565b91600760ff60068901541697015495604051998a99610100948b5260208b015260408a0152606089015260808801528060a0880152860190614b12565b92151560c08501528301520390f35b90600182811c92168015614989575b602083101461497557565b634e487b7160e01b5f52602260045260245ffd5b91607f169161496a565b6001600160401b0381116145e957604052565b604081019081106001600160401b038211176145e957604052565b60a081019081106001600160401b038211176145e957604052565b608081019081106001600160401b038211176145e957604052565b60c081019081106001600160401b038211176145e957604052565b61010081019081106001600160401b038211176145e957604052565b90601f801991011681019081106001600160401b038211176145e957604052565b9060405191825f8254614a618161495b565b908184526020946001916001811690815f14614acf5750600114614a91575b505050614a8f92500383614a2e565b565b5f90815285812095935091905b818310614ab7575050614a8f93508201015f8080614a80565b85548884018501529485019487945091830191614a9e565b92505050614a8f94925060ff191682840152151560051b8201015f8080614a80565b5f5b838110614b025750505f910152565b8181015183820152602001614af3565b90602091614b2b81518092818552858086019101614af1565b601f01601f1916010190565b9291926001600160401b0382116145e95760405191614b60601f8201601f191660200184614a2e565b829481845281830111610546578281602093845f960137010152565b9080601f8301121561054657816020614b9793359101614b37565b90565b6024359063ffffffff8216820361054657565b606060031982011261054657600435916001600160401b036024358181116105465783614bdc91600401614b7c565b9260443591821161054657614b9791600401614b7c565b9181601f84011215610546578235916001600160401b038311610546576020808501948460051b01011161054657565b9181601f84011215610546578235916001600160401b038311610546576020838186019501011161054657565b604060031982011261054657600435906001600160401b03821161054657614c7a91600401614b7c565b906024356001600160a01b03811681036105465790565b6024359060ff8216820361054657565b604060031982011261054657600435906001600160401b03821161054657614ccb91600401614b7c565b9060243560ff811681036105465790565b606060031982011261054657600435906001600160401b03821161054657614d0691600401614b7c565b906024356001600160a01b0381168103610546579060443580151581036105465790565b9081518082526020808093019301915f5b828110614d49575050505090565b835185529381019392810192600101614d3b565b15614d6457565b60405162461bcd60e51b815260206004820152600f60248201526e2737ba1036b7b232b61037bbb732b960891b6044820152606490fd5b6001600160401b0381116145e95760051b60200190565b15614db957565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b15614df757565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e481c1c9bd8d95cdcd959607a1b6044820152606490fd5b5190811515820361054657565b818110614e48575050565b5f8155600101614e3d565b91909182516001600160401b0381116145e957614e70825461495b565b601f8111614f15575b50602080601f8311600114614eb45750819293945f92614ea9575b50508160011b915f199060031b1c1916179055565b015190505f80614e94565b90601f19831695845f5260205f20925f905b888210614efd57505083600195969710614ee5575b505050811b019055565b01515f1960f88460031b161c191690555f8080614edb565b80600185968294968601518155019501930190614ec6565b614f4090835f5260205f20601f840160051c81019160208510614f46575b601f0160051c0190614e3d565b5f614e79565b9091508190614f33565b8054821015614f69575f5260205f209060011b01905f90565b634e487b7160e01b5f52603260045260245ffd5b90614f9a6020614fa9938160405193828580945193849201614af1565b81016006815203019020614f50565b508054600163ffffffff92015482821693838360201c1693808460401c169360601c169190565b614fda815461495b565b9081614fe4575050565b81601f5f9311600114614ff5575055565b908083918252615014601f60208420940160051c840160018501614e3d565b5555565b1561501f57565b60405162461bcd60e51b815260206004820152601060248201526f2737ba1036b7b232b6103bb934ba32b960811b6044820152606490fd5b91908201809211610a8857565b9190811015614f695760051b0190565b60243563ffffffff811681036105465790565b60443563ffffffff811681036105465790565b60643563ffffffff811681036105465790565b60843563ffffffff811681036105465790565b60a43563ffffffff811681036105465790565b60c43563ffffffff811681036105465790565b906150f1818361513f565b9182156150fd57505090565b6002919250602061511b918160405193828580945193849201614af1565b8101601b815203019020019060018060a01b03165f5260205260ff60405f20541690565b6020615158918160405193828580945193849201614af1565b8101601b81520301902060018060a01b039081815416918215159384615180575b5050505090565b169182149250908215615199575b50505f808080615179565b600192505f520160205260ff60405f2054165f8061518e565b906151ca602091949394604084526040840190614b12565b931515910152565b9193926151e9604092606085526060850190614b12565b9460208401521515910152565b519063ffffffff8216820361054657565b60405190815f82546152188161495b565b9360019180831690811561527b5750600114615240575b505060209250600881520301902090565b9091505f5260209060205f20905f915b858310615267575050505060209181015f8061522f565b805487840152869450918301918101615250565b92505050602093915060ff191682528015150281015f8061522f565b1561529e57565b60405162461bcd60e51b815260206004820152601060248201526f2737ba1036b7b232b6103b34b2bbb2b960811b6044820152606490fd5b805115614f695760200190565b805160011015614f695760400190565b805160021015614f695760600190565b805160031015614f695760800190565b51906001600160401b038216820361054657565b90604051918281549182825260209260208301915f5260205f20935f905b82821061535b57505050614a8f92500383614a2e565b855484526001958601958895509381019390910190615345565b9080601f830112156105465781519060209161539081614d9b565b9361539e6040519586614a2e565b81855260208086019260051b82010192831161054657602001905b8282106153c7575050505090565b815181529083019083016153b9565b9190808252602080920192915f5b8281106153f2575050505090565b8335855293810193928101926001016153e4565b908060209392818452848401375f828201840152601f01601f1916010190565b9190825f525f80516020615f4583398151915291602091838352604093845f2054156155eb57855f528352835f209084518083868295549384815201905f52865f20925f5b888282106155d55750505061548292500383614a2e565b805180850190818611610a88578601809111610a88576155235f86946154d18961553696815196816154bd89935180928d8087019101614af1565b8201908a8201520388810187520185614a2e565b61554560018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190615b7f565b6003199384878303016024880152614b12565b91848303016044850152614b12565b03925af19182156155cb575f92615595575b50501561558557507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d83116155c4575b6155ac8183614a2e565b81010312610546576155bd90614e30565b5f80615557565b503d6155a2565b83513d5f823e3d90fd5b855484526001958601958895509301920161546b565b845163d66ca67560e01b8152600490fd5b60ff166003811461567e576002811461565a5760011461563857604051615622816149a6565b6006815265139bdc9b585b60d21b602082015290565b604051615644816149a6565b60068152654e6f7469636560d01b602082015290565b50604051615667816149a6565b60078152665761726e696e6760c81b602082015290565b5060405161568b816149a6565b600881526710dc9a5d1a58d85b60c21b602082015290565b929190928415906156b43084615ef0565b6156be3384615ef0565b6156c83085615ef0565b6156d23385615ef0565b6156dc8382615d82565b81156157b2575b5f549560018701809711610a88576007876157977f9df28e950ffaa517a8284c90ee62b66ac7067d6338a5bf2225f6133c8a09e11696610a458399845f556040519661572e88614a12565b858852602088019384526040880191825260608801908152608088019042825260a08901928a845260c08a01958c875260e08b01985f8a525f52600160205260405f209a518b555160018b01555160028a01555160038901555160048801555160058701614e53565b519101556157ac6040519283924290846151d2565b0390a390565b6157bc3087615ef0565b6157c63387615ef0565b6157d18685836158ae565b6156e3565b63ffffffff9182169082160391908211610a8857565b81156157f6570490565b634e487b7160e01b5f52601260045260245ffd5b60ff1660ff8114610a885760010190565b63ffffffff9182169081615830575050505f90565b6001600160401b0316041690565b90815f52600160205260405f20906158563082615ef0565b6158603382615ef0565b600782015560ff6006820154161561589a575b507f0ce12c5015a657dae1da3cc166a2427d907819c0f279bc08ba78fe29243677ec5f80a2565b60038101546158a89161595d565b5f615873565b9060405160ff835191602081818701946158c9818388614af1565b810160108152030190205416156159575760206159079173__$7b060f15ba0dbc425b4a329b82e1932c40$__94604051938492839251928391614af1565b8101601181520301902091803b15610546575f92606491604051958694859363227059f560e11b85526004850152602484015260448301525af4801561053b5761594e5750565b614a8f90614993565b50505050565b9060078201548015615a585773__$9fa67c90d2d6291f3cc4c949ff1aca7d78$__9160058401604051905f9080546159948161495b565b91600191808316908115615a3d5750600114615a02575b50505090602081836014600295520301902094015493833b15610546575f93608492604051968795869463508cd81f60e01b865260048601526024850152604484015260648301525af4801561053b5761594e5750565b909192505f5260209060205f20905f915b848310615a2c57505050908201905060208260026159ab565b805486840152918301918101615a13565b60ff19168652505050801515028201905060208260026159ab565b505050565b90815f52602060018152604090815f20936004825260ff6002845f20015460081c16615b2057805f52600d825260ff835f205416615aea5760ff600686015416615ab75790600d915f52525f20600160ff19825416179055565b50606491519062461bcd60e51b82526004820152600d60248201526c4c6162656c2070656e64696e6760981b6044820152fd5b50606491519062461bcd60e51b82526004820152601060248201526f416e616c797369732070656e64696e6760801b6044820152fd5b50606491519062461bcd60e51b82526004820152601060248201526f105b1c9958591e48185b985b1e5e995960821b6044820152fd5b9080615b625750505f90565b61271091828102928184041490151715610a8857614b97916157ec565b9081518082526020808093019301915f5b828110615b9e575050505090565b835185529381019392810192600101615b90565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615c1d906084830190614b12565b6004606483015203925af190811561053b575f91615c88575b5080925f80516020615f858339815191525416803b1561054657604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af1801561053b5761594e5750565b90506020813d602011615cb2575b81615ca360209383614a2e565b8101031261054657515f615c36565b3d9150615c96565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615d25906084830190614b12565b6002606483015203925af190811561053b575f91615c88575080925f80516020615f858339815191525416803b1561054657604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101615c77565b60408051825163ffffffff602092838181880194615da1818388614af1565b81016007815203019020541615615ee957825182818651615dc3818387614af1565b8101600981520301902094615dfc845184818851615de2818389614af1565b810160078152030190209285519182918851928391614af1565b810190601b8252848160018060a01b03930301902054169084519263f722e07b60e01b8452600484015286602484015260448301526064820152818160848173__$4ea34ef976719bc223a8cc87a2d136206b$__5af49081156155cb575f91615eb4575b50615e6b5750505050565b60097fa7a627348a3545620e277cda1e8a91ceeae124c29a4fd02beafc898fc4ddd056940154615ea48351948486958652850190614b12565b918301520390a15f808080615957565b90508181813d8311615ee2575b615ecb8183614a2e565b8101031261054657615edc90614e30565b5f615e60565b503d615ec1565b5050505050565b5f80516020615f85833981519152546001600160a01b031691823b1561054657604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101615c7756fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type AiMonitor_FHEConstructorParams =
+  | [linkLibraryAddresses: AiMonitor_FHELibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AiMonitor_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class AiMonitor_FHE__factory extends ContractFactory {
+  constructor(...args: AiMonitor_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        AiMonitor_FHE__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: AiMonitor_FHELibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$080d3d086a8af7191d610c3e9f2f17760b\\$__", "g"),
+      linkLibraryAddresses["contracts/ModelMetrics.sol:ModelMetrics"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$ff02607b538cde0fc1c807c95ebc6201a7\\$__", "g"),
+      linkLibraryAddresses["contracts/PredictionSchema.sol:PredictionSchema"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$370ae17a85aadebd98e6589e81388d83f1\\$__", "g"),
+      linkLibraryAddresses["contracts/AlertEvaluation.sol:AlertEvaluation"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$9fa67c90d2d6291f3cc4c949ff1aca7d78\\$__", "g"),
+      linkLibraryAddresses["contracts/FairnessMetrics.sol:FairnessMetrics"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$7b060f15ba0dbc425b4a329b82e1932c40\\$__", "g"),
+      linkLibraryAddresses[
+        "contracts/ClassificationMetrics.sol:ClassificationMetrics"
+      ]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$4ea34ef976719bc223a8cc87a2d136206b\\$__", "g"),
+      linkLibraryAddresses["contracts/DriftDetection.sol:DriftDetection"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    metricRegistry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(metricRegistry_, overrides || {});
+  }
+  override deploy(
+    metricRegistry_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(metricRegistry_, overrides || {}) as Promise<
+      AiMonitor_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AiMonitor_FHE__factory {
+    return super.connect(runner) as AiMonitor_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AiMonitor_FHEInterface {
+    return new Interface(_abi) as AiMonitor_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AiMonitor_FHE {
+    return new Contract(address, _abi, runner) as unknown as AiMonitor_FHE;
+  }
+}
+
+export interface AiMonitor_FHELibraryAddresses {
+  ["contracts/ModelMetrics.sol:ModelMetrics"]: string;
+  ["contracts/PredictionSchema.sol:PredictionSchema"]: string;
+  ["contracts/AlertEvaluation.sol:AlertEvaluation"]: string;
+  ["contracts/FairnessMetrics.sol:FairnessMetrics"]: string;
+  ["contracts/ClassificationMetrics.sol:ClassificationMetrics"]: string;
+  ["contracts/DriftDetection.sol:DriftDetection"]: string;
+}
@@ -0,0 +1,40 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IDataStore,
+  IDataStoreInterface,
+} from "../../../contracts/MetricRegistry.sol/IDataStore";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IDataStore__factory {
+  static readonly abi = _abi;
+  static createInterface(): IDataStoreInterface {
+    return new Interface(_abi) as IDataStoreInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): IDataStore {
+    return new Contract(address, _abi, runner) as unknown as IDataStore;
+  }
+}
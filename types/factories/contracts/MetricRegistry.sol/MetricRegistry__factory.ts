@@ -0,0 +1,369 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MetricRegistry,
+  MetricRegistryInterface,
+} from "../../../contracts/MetricRegistry.sol/MetricRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract IDataStore",
+        name: "dataStore_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "item",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ItemAppended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "WriterUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAYLOAD_KEY_PREFIX",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "item",
+        type: "string",
+      },
+    ],
+    name: "append",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "items",
+        type: "string[]",
+      },
+    ],
+    name: "appendBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "item",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "appendWithData",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+    ],
+    name: "count",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dataStore",
+    outputs: [
+      {
+        internalType: "contract IDataStore",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getItems",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "page",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "collection",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "item",
+        type: "string",
+      },
+    ],
+    name: "isListed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isWriter",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setWriter",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c0346100c957601f610f7038819003918201601f19168301916001600160401b038311848410176100cd578084926020946040528339810103126100c957516001600160a01b03811681036100c9576080523360a052335f52600260205260405f20600160ff19825416179055604051600181527f7500d470ca795448d4f0b796ac1d4562fd0d46302770ff16ee8aa96db044c93f60203392a2604051610e8e90816100e282396080518181816101270152610507015260a05181818161030401526106300152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081630dc641e6146106d6575080631f91b39f146105fc5780632b29ba23146105c057806348f4da20146105a5578063591c515f1461056a57806360cd650014610536578063660d0d67146104f35780637214200a146104115780637c84ab4a146103d2578063838f3266146103335780638da5cb5b146102f05763c79bffc1146100a3575f80fd5b3461027d576003199060603683011261027d5767ffffffffffffffff91833583811161027d576100d69036908601610720565b94909360243581811161027d576100f09036908401610720565b909560443583811161027d576101099036908601610720565b929097335f5260209960028b5261012560ff8a5f205416610878565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169384156102bd57908b949392916101646107e5565b60ff8c519761019c818a89826101838184019889815193849201610819565b8201818b85830137015f8382015203808c52018a6107af565b8d5190818a516101ad818388610819565b81016003815203019020541661028157906101d98e6101f3969594938e51809381928c51928391610819565b81016003815203019020600160ff19825416179055610bc5565b97813b1561027d575f866102376102289983978c9586519c8d998a988997633633defd60e11b8952880152604487019061083a565b92858403016024860152610ba5565b03925af180156102735761024f575b50505051908152f35b8211610260575081525f8080610246565b604190634e487b7160e01b5f525260245ffd5b84513d5f823e3d90fd5b5f80fd5b8b5162461bcd60e51b8152808b018f9052601660248201527514185e5b1bd85908185b1c9958591e481cdd1bdc995960521b6044820152606490fd5b895162461bcd60e51b81528089018d9052600d60248201526c4e6f20646174612073746f726560981b6044820152606490fd5b503461027d575f36600319011261027d57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50903461027d57606036600319011261027d57803567ffffffffffffffff811161027d576103759161036791369101610720565b9060443591602435916109b9565b81519060208083016020845282518091526020858501958260051b8601019301915f955b8287106103a65785850386f35b9091929382806103c2600193603f198a8203018652885161083a565b9601920196019592919092610399565b503461027d5760209060ff610406836103ea36610764565b928288959295519384928337810160018152030190209161085f565b541690519015158152f35b50903461027d578160031936011261027d5767ffffffffffffffff813581811161027d576104429036908401610720565b906024359383851161027d573660238601121561027d5784013592831161027d576024840193602436918560051b01011161027d57335f52602093600260205260ff9461049460ff885f205416610878565b5f5b85811061049f57005b600190876104c98a518888823785818a8101878152030190206104c3848b896108bc565b9061085f565b5416156104d7575b01610496565b6104ed6104e58289876108bc565b908888610c36565b506104d1565b503461027d575f36600319011261027d57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b503461027d575f36600319011261027d57610566906105536107e5565b905191829160208352602083019061083a565b0390f35b503461027d5760209061059e61057f36610764565b92919091335f526002875261059960ff875f205416610878565b610bc5565b9051908152f35b503461027d575f36600319011261027d576020905160648152f35b503461027d57602036600319011261027d576020906001600160a01b036105e561074e565b165f526002825260ff815f20541690519015158152f35b50903461027d578160031936011261027d5761061661074e565b906024359182151580930361027d576001600160a01b03917f00000000000000000000000000000000000000000000000000000000000000008316330361069e5750916020917f7500d470ca795448d4f0b796ac1d4562fd0d46302770ff16ee8aa96db044c93f931693845f5260028352805f2060ff1981541660ff841617905551908152a2005b606490602086519162461bcd60e51b835282015260126024820152712737ba103932b3b4b9ba393c9037bbb732b960711b6044820152fd5b90503461027d57602036600319011261027d57823567ffffffffffffffff811161027d578161070b6020958693369101610720565b8091833781015f815203019020549051908152f35b9181601f8401121561027d5782359167ffffffffffffffff831161027d576020838186019501011161027d57565b600435906001600160a01b038216820361027d57565b604060031982011261027d5767ffffffffffffffff9160043583811161027d578261079191600401610720565b9390939260243591821161027d576107ab91600401610720565b9091565b90601f8019910116810190811067ffffffffffffffff8211176107d157604052565b634e487b7160e01b5f52604160045260245ffd5b604051906040820182811067ffffffffffffffff8211176107d15760405260078252666d65747269635f60c81b6020830152565b5f5b83811061082a5750505f910152565b818101518382015260200161081b565b9060209161085381518092818552858086019101610819565b601f01601f1916010190565b6020919283604051948593843782019081520301902090565b1561087f57565b60405162461bcd60e51b81526020600482015260156024820152742737ba1030903932b3b4b9ba393c903bb934ba32b960591b6044820152606490fd5b91908110156108fe5760051b81013590601e198136030182121561027d57019081359167ffffffffffffffff831161027d57602001823603811361027d579190565b634e487b7160e01b5f52603260045260245ffd5b67ffffffffffffffff81116107d15760051b60200190565b9190820180921161093757565b634e487b7160e01b5f52601160045260245ffd5b9190820391821161093757565b80548210156108fe575f5260205f2001905f90565b80518210156108fe5760209160051b010190565b90600182811c921680156109af575b602083101461099b57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610990565b93929360648511610b6f5760409082604051938492833781015f81526020938491030190209485549081851015610b4657816109f5828761092a565b1115610b355750915b610a08848461094b565b90610a1282610912565b91610a2060405193846107af565b808352610a2f601f1991610912565b01815f5b828110610b25575050508196855b858110610a515750505050505050565b610a5b8183610958565b50610a66888361094b565b908651905f90805490610a7882610981565b908185526001928984821691825f14610afe575050600114610ac4575b5050509181610aac610abd936001969503826107af565b610ab6828961096d565b528661096d565b5001610a41565b8893505f52825f20915f925b828410610ae95750505082010181610aac610abd610a95565b80548685018601528994909301928101610ad0565b60ff19168188015292151560051b86019092019350849250610aac9150610abd9050610a95565b6060828287010152018290610a33565b610b4091508461092a565b916109fe565b5050509192505060405190810181811067ffffffffffffffff8211176107d1576040525f815290565b60405162461bcd60e51b815260206004820152600e60248201526d5061676520746f6f206c6172676560901b6044820152606490fd5b908060209392818452848401375f828201840152601f01601f1916010190565b92919060ff610be9604051838782376020818581016001815203019020858561085f565b5416610bfb57610bf893610c36565b90565b60405162461bcd60e51b8152602060048201526013602482015272125d195b48185b1c9958591e481b1a5cdd1959606a1b6044820152606490fd5b939290938115610e4f57604092835186838237808781015f815260209283910301902091825497680100000000000000008910156107d157610c7f896001958682018155610958565b959095610e3c5767ffffffffffffffff87116107d1578794610ca18754610981565b601f8111610de7575b505f9688601f8111600114610d595790610d4995949392917fb13671fc67f4bea5d356f74ac14c8f0d487e901ddcf016bc5e6ce7ad9121d318995f91610d4e575b505f1960038c901b1c19168a831b1790555b610d198751848482378781868101858152030190208a8661085f565b9060ff19825416179055818651928392833781015f81520390209584519485948b86528501523397840191610ba5565b0390a3565b90508501355f610ceb565b50601f19891697815f52865f20908a5f5b8b8110610dcc575090610d49979695949392917fb13671fc67f4bea5d356f74ac14c8f0d487e901ddcf016bc5e6ce7ad9121d3189b10610db3575b5050818a811b019055610cfd565b8601355f1960038d901b60f8161c191690555f80610da5565b8289013584558d9a5092850192918901918c91508901610d6a565b90919293949550865f52855f20601f890160051c810191878a10610e32575b90601f8b989796959493920160051c01905b818110610e255750610caa565b5f81558a97508201610e18565b9091508190610e06565b634e487b7160e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152600a602482015269456d707479206974656d60b01b6044820152606490fdfea164736f6c6343000818000a";
+
+type MetricRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MetricRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MetricRegistry__factory extends ContractFactory {
+  constructor(...args: MetricRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dataStore_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dataStore_, overrides || {});
+  }
+  override deploy(
+    dataStore_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dataStore_, overrides || {}) as Promise<
+      MetricRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MetricRegistry__factory {
+    return super.connect(runner) as MetricRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MetricRegistryInterface {
+    return new Interface(_abi) as MetricRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MetricRegistry {
+    return new Contract(address, _abi, runner) as unknown as MetricRegistry;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IDataStore__factory } from "./IDataStore__factory";
+export { MetricRegistry__factory } from "./MetricRegistry__factory";
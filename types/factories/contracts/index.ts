@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as metricRegistrySol from "./MetricRegistry.sol";
+export * as mocks from "./mocks";
+export { AiMonitor_FHE__factory } from "./AiMonitor_FHE__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
@@ -0,0 +1,129 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  DataStoreMock,
+  DataStoreMockInterface,
+} from "../../../contracts/mocks/DataStoreMock";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataStored",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getData",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576103de908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa1461017b575063ae55c88814610035575f80fd5b3461017757602091826003193601126101775767ffffffffffffffff9281358481116101775761006982913690850161034b565b9190828651938492833781015f8152030190209083519283925f90805461008f81610379565b91828752600191866001821691825f14610159575050600114610122575b505050601f80199586920301168301958387109087111761010f57509084929183855280845281519182828601525f5b8381106100f95750505f84830186015250601f01168101030190f35b81810183015188820188015287955082016100dd565b604190634e487b7160e01b5f525260245ffd5b5f9081528581209093505b82841061014357505050830182015f80806100ad565b805488850187015287965092850192810161012d565b93509450505060ff191682860152151560051b8401015f80806100ad565b5f80fd5b83833461017757806003193601126101775767ffffffffffffffff908235828111610177576101ad903690850161034b565b9290602435828111610177576101c6903690870161034b565b92909585838937878681015f81526020998a910301902091841161010f57506101ef8154610379565b601f8111610308575b505f601f841160011461027c577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782969792849261026c9561025d935f91610271575b508460011b905f198660031b1c19161790555b85519686889788528701916103b1565b918483039085015233966103b1565b0390a2005b90508a01358b61023a565b601f19841690825f52885f20915f5b8181106102f157509261025d927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a95928761026c9896106102d8575b5050600184811b01905561024d565b8b01355f19600387901b60f8161c191690558a806102c9565b91928a60018192868d01358155019401920161028b565b815f52875f20601f850160051c810191898610610341575b601f0160051c01905b81811061033657506101f8565b5f8155600101610329565b9091508190610320565b9181601f840112156101775782359167ffffffffffffffff8311610177576020838186019501011161017757565b90600182811c921680156103a7575b602083101461039357565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610388565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+
+type DataStoreMockConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DataStoreMockConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DataStoreMock__factory extends ContractFactory {
+  constructor(...args: DataStoreMockConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DataStoreMock & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DataStoreMock__factory {
+    return super.connect(runner) as DataStoreMock__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DataStoreMockInterface {
+    return new Interface(_abi) as DataStoreMockInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DataStoreMock {
+    return new Contract(address, _abi, runner) as unknown as DataStoreMock;
+  }
+}
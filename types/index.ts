@@ -22,5 +22,13 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { AiMonitor_FHE } from "./contracts/AiMonitor_FHE";
+export { AiMonitor_FHE__factory } from "./factories/contracts/AiMonitor_FHE__factory";
+export type { IDataStore } from "./contracts/MetricRegistry.sol/IDataStore";
+export { IDataStore__factory } from "./factories/contracts/MetricRegistry.sol/IDataStore__factory";
+export type { MetricRegistry } from "./contracts/MetricRegistry.sol/MetricRegistry";
+export { MetricRegistry__factory } from "./factories/contracts/MetricRegistry.sol/MetricRegistry__factory";
+export type { DataStoreMock } from "./contracts/mocks/DataStoreMock";
+export { DataStoreMock__factory } from "./factories/contracts/mocks/DataStoreMock__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";